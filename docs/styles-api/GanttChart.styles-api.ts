@@ -37,13 +37,121 @@ export const GanttChartStylesApi: StylesApiData<GanttChartFactory> = {
     loadingIndicatorRight: 'Loading indicator right element',
     scrollToTaskButton: 'Scroll to task button element',
     taskName: 'Task name element',
+    taskResizeHandle: 'Handle on the task edges that changes task start or end date',
+    dependencies: 'SVG element that contains dependency arrows',
+    dependencyLine: 'Dependency arrow line',
+    dependencyArrow: 'Dependency arrow head',
+    treeToggle: 'Wrapper of the expand/collapse button in the table',
+    milestone: 'Milestone marker, rendered instead of the task bar',
+    taskProgress: 'Filled part of the task bar that displays task progress',
+    tableHeader: 'Header row of the task table, rendered when `columns` prop is set',
+    tableHeaderCell: 'Column header of the task table',
+    tableSortButton: 'Button in the sortable column header',
+    tableColumnCell: 'Cell of a column in the task table row',
+    tableColumnValue: 'Default content of the task table cell',
+    splitter: 'Draggable separator between the task table and the timeline',
+    taskProgressHandle: 'Handle at the end of the progress fill that changes task progress',
+    baseline: 'Thin bar under the task that displays its planned dates',
+    baselineVariance: 'Number of days the task finishes ahead or behind its baseline',
   },
 
   vars: {
     root: {
-      '--test-component-color': 'Controls root element `background-color`',
+      '--gantt-progress-color': 'Controls `background-color` of the task progress fill',
+      '--gantt-task-bg': 'Controls `background-color` of task bars',
+      '--gantt-task-color': 'Controls text `color` of task bars',
+      '--gantt-task-bd': 'Controls `border` of task bars',
+      '--gantt-task-hover': 'Controls `background-color` of hovered task bars',
+      '--gantt-milestone-color': 'Controls `background-color` of milestone diamonds',
     },
   },
 
-  modifiers: [{ modifier: 'data-centered', selector: 'root', condition: '`centered` prop is set' }],
+  modifiers: [
+    { modifier: 'data-centered', selector: 'root', condition: '`centered` prop is set' },
+    {
+      modifier: 'data-variant',
+      selector: 'root',
+      condition: '`variant` prop is set',
+      value: "'filled' | 'light' | 'outline'",
+    },
+    {
+      modifier: 'data-sorted',
+      selector: 'tableHeaderCell',
+      condition: 'Table is sorted by the column',
+      value: "'asc' | 'desc'",
+    },
+    {
+      modifier: 'data-mark-type',
+      selector: ['dateCell', 'periodGridLine'],
+      condition:
+        'Mark type of the period, `holiday` and `weekend` follow `calendar` prop when set, holiday date cells display the holiday name in a tooltip',
+      value: "'major' | 'minor' | 'weekend' | 'holiday' | 'none'",
+    },
+    { modifier: 'data-first', selector: 'tableColumnCell', condition: 'First column of the row' },
+    { modifier: 'data-depth', selector: 'tableCell', condition: 'Nesting level of the task' },
+    { modifier: 'data-parent', selector: 'tableCell', condition: 'Task has child tasks' },
+    {
+      modifier: 'data-summary',
+      selector: ['task', 'taskLine'],
+      condition: 'Task has child tasks and displays their summary',
+    },
+    {
+      modifier: 'data-milestone',
+      selector: ['tableCell', 'taskLine'],
+      condition: 'Row contains a milestone',
+    },
+    {
+      modifier: 'data-selected',
+      selector: ['tableCell', 'task', 'milestone'],
+      condition: 'Task is selected',
+    },
+    {
+      modifier: 'data-hovered',
+      selector: ['tableCell', 'taskLine'],
+      condition: 'Task row is hovered in the table or the timeline',
+    },
+    {
+      modifier: 'data-critical',
+      selector: ['task', 'milestone', 'dependencyLine', 'dependencyArrow'],
+      condition: 'Task or dependency is on the critical path, `showCriticalPath` prop is set',
+    },
+    {
+      modifier: 'data-milestone',
+      selector: 'baseline',
+      condition: 'Baseline start and end are equal',
+    },
+    {
+      modifier: 'data-variance',
+      selector: 'baselineVariance',
+      condition: 'Task finishes after or before its baseline end',
+      value: "'behind' | 'ahead'",
+    },
+    {
+      modifier: 'data-draggable',
+      selector: ['task', 'milestone'],
+      condition: '`onTaskChange` prop is set',
+    },
+    {
+      modifier: 'data-dragging',
+      selector: ['task', 'milestone'],
+      condition: 'Task is being dragged',
+    },
+    {
+      modifier: 'data-resizing',
+      selector: 'task',
+      condition: 'Task is being resized',
+      value: "'start' | 'end'",
+    },
+    {
+      modifier: 'data-progress-dragging',
+      selector: 'task',
+      condition: 'Task progress is being changed',
+    },
+    {
+      modifier: 'data-edge',
+      selector: 'taskResizeHandle',
+      condition: 'Edge of the task the handle resizes',
+      value: "'start' | 'end'",
+    },
+  ],
 };
@@ -24,3 +24,13 @@ class ResizeObserver {
 }
 
 window.ResizeObserver = ResizeObserver;
+
+class PointerEvent extends MouseEvent {
+  constructor(type, params = {}) {
+    super(type, params);
+    this.pointerId = params.pointerId ?? 1;
+    this.pointerType = params.pointerType ?? 'mouse';
+  }
+}
+
+window.PointerEvent = PointerEvent;
@@ -1,5 +1,9 @@
-import React from 'react';
-import { GanttChart } from './GanttChart';
+import React, { useRef, useState } from 'react';
+import { constructFrom } from 'date-fns';
+import { de, ja } from 'date-fns/locale';
+import { Avatar, Badge } from '@mantine/core';
+import { GanttChart, GanttChartData, GanttChartHandle } from './GanttChart';
+import type { GanttChartScale } from './GanttChartPeriodConfig';
 
 export default { title: 'GanttChart' };
 
@@ -43,7 +47,552 @@ export function Short() {
             end: new Date(2025, 2, 17, 0),
           },
         ]}
-        scale="week"
+        defaultScale="week"
+      />
+    </div>
+  );
+}
+
+export function Draggable() {
+  const [data, setData] = useState<GanttChartData[]>([
+    {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2025, 2, 10),
+      end: new Date(2025, 2, 20),
+      progress: 40,
+    },
+    { id: '2', name: 'Task 2', start: new Date(2025, 2, 15), end: new Date(2025, 2, 25) },
+  ]);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        data={data}
+        defaultScale="month"
+        onTaskChange={(task, change) =>
+          setData((current) => current.map((d) => (d.id === task.id ? { ...d, ...change } : d)))
+        }
+      />
+    </div>
+  );
+}
+
+export function Dependencies() {
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        defaultScale="month"
+        data={[
+          { id: '1', name: 'Design', start: new Date(2025, 2, 3), end: new Date(2025, 2, 10) },
+          {
+            id: '2',
+            name: 'Development',
+            start: new Date(2025, 2, 10),
+            end: new Date(2025, 2, 24),
+            dependencies: [{ id: '1' }],
+          },
+          {
+            id: '3',
+            name: 'Documentation',
+            start: new Date(2025, 2, 12),
+            end: new Date(2025, 2, 26),
+            dependencies: [{ id: '2', type: 'start-to-start' }],
+          },
+          {
+            id: '4',
+            name: 'Release',
+            start: new Date(2025, 2, 28),
+            end: new Date(2025, 2, 28),
+            dependencies: [
+              { id: '2', type: 'finish-to-finish' },
+              { id: '3', type: 'finish-to-start' },
+            ],
+          },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function Hierarchy() {
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        defaultScale="month"
+        data={[
+          { id: 'epic', name: 'Epic', start: new Date(2025, 2, 3), end: new Date(2025, 2, 3) },
+          {
+            id: 'story-1',
+            name: 'Story 1',
+            parentId: 'epic',
+            start: new Date(2025, 2, 3),
+            end: new Date(2025, 2, 3),
+          },
+          {
+            id: 'subtask-1',
+            name: 'Subtask 1',
+            parentId: 'story-1',
+            start: new Date(2025, 2, 3),
+            end: new Date(2025, 2, 7),
+          },
+          {
+            id: 'subtask-2',
+            name: 'Subtask 2',
+            parentId: 'story-1',
+            start: new Date(2025, 2, 6),
+            end: new Date(2025, 2, 12),
+          },
+          {
+            id: 'story-2',
+            name: 'Story 2',
+            parentId: 'epic',
+            start: new Date(2025, 2, 12),
+            end: new Date(2025, 2, 20),
+          },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function Columns() {
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        defaultScale="month"
+        defaultSort={{ key: 'start', direction: 'asc' }}
+        columns={[
+          { key: 'name', label: 'Task', accessor: 'name' },
+          { key: 'start', label: 'Start', accessor: 'start', width: '7rem' },
+          {
+            key: 'duration',
+            label: 'Days',
+            width: '3rem',
+            accessor: (task) => Math.round((task.end.getTime() - task.start.getTime()) / 86400000),
+          },
+        ]}
+        data={[
+          { id: '1', name: 'Task 1', start: new Date(2025, 2, 10), end: new Date(2025, 2, 20) },
+          { id: '2', name: 'Task 2', start: new Date(2025, 2, 3), end: new Date(2025, 2, 12) },
+          { id: '3', name: 'Task 3', start: new Date(2025, 2, 16), end: new Date(2025, 2, 30) },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function ManyRows() {
+  const data = Array.from({ length: 8000 }, (_, index) => ({
+    id: String(index),
+    name: `Task ${index + 1}`,
+    start: new Date(2025, 2, 1 + (index % 30)),
+    end: new Date(2025, 2, 6 + (index % 30)),
+  }));
+
+  return (
+    <div style={{ padding: 40, height: 600 }}>
+      <GanttChart data={data} defaultScale="month" />
+    </div>
+  );
+}
+
+export function Navigation() {
+  const chartRef = useRef<GanttChartHandle>(null);
+  const [range, setRange] = useState('');
+
+  return (
+    <div style={{ padding: 40 }}>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 16 }}>
+        <button
+          type="button"
+          onClick={() => chartRef.current?.scrollToDate(new Date(2025, 5, 2), { align: 'start' })}
+        >
+          Jump to sprint
+        </button>
+        <button type="button" onClick={() => chartRef.current?.scrollToTask('3')}>
+          Show Task 3
+        </button>
+        <button type="button" onClick={() => chartRef.current?.fitToData()}>
+          Fit to data
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            const visible = chartRef.current?.getVisibleRange();
+            setRange(
+              visible ? `${visible.start.toDateString()} – ${visible.end.toDateString()}` : ''
+            );
+          }}
+        >
+          Visible range
+        </button>
+        <span>{range}</span>
+      </div>
+      <GanttChart
+        chartRef={chartRef}
+        data={[
+          { id: '1', name: 'Task 1', start: new Date(2025, 2, 10), end: new Date(2025, 3, 10) },
+          { id: '2', name: 'Task 2', start: new Date(2025, 3, 20), end: new Date(2025, 4, 20) },
+          { id: '3', name: 'Task 3', start: new Date(2025, 8, 1), end: new Date(2025, 8, 30) },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function LazyLoading() {
+  const [data, setData] = useState<GanttChartData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const loaded = useRef(new Set<string>());
+
+  // Simulates a backend that returns tasks of a single month
+  const loadMonth = (year: number, month: number) => {
+    const key = `${year}-${month}`;
+    if (loaded.current.has(key)) {
+      return;
+    }
+
+    loaded.current.add(key);
+    setLoading(true);
+    setTimeout(() => {
+      setData((current) => [
+        ...current,
+        ...Array.from({ length: 3 }, (_, index) => ({
+          id: `${key}-${index}`,
+          name: `Task ${month + 1}/${index + 1}`,
+          start: new Date(year, month, 1 + index * 9),
+          end: new Date(year, month, 6 + index * 9),
+        })),
+      ]);
+      setLoading(false);
+    }, 800);
+  };
+
+  return (
+    <div style={{ padding: 40, height: 500 }}>
+      <GanttChart
+        data={data}
+        defaultScale="quarter"
+        loadingLeft={loading}
+        loadingRight={loading}
+        onVisibleRangeChange={({ start, end }) => {
+          for (
+            let date = new Date(start.getFullYear(), start.getMonth(), 1);
+            date < end;
+            date = new Date(date.getFullYear(), date.getMonth() + 1, 1)
+          ) {
+            loadMonth(date.getFullYear(), date.getMonth());
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+export function CustomScales() {
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        defaultScale="sprint"
+        scales={['shift', 'day', 'week', 'sprint']}
+        periodConfigs={{
+          week: { width: 5, labelFormat: 'EEE d' },
+          shift: {
+            label: 'Shift',
+            width: 3,
+            labelFormat: 'HH:mm',
+            headerFormat: 'MMMM d, yyyy',
+            periodHeaderFormat: 'MMMM d',
+            increment: { minutes: 5 },
+            getMarkType: (date) => (date.getMinutes() === 0 ? 'major' : 'minor'),
+            alignDate: (date) => {
+              const aligned = constructFrom(date, date);
+              aligned.setMinutes(Math.floor(date.getMinutes() / 5) * 5, 0, 0);
+              return aligned;
+            },
+          },
+          sprint: {
+            label: 'Sprints',
+            width: 8,
+            labelFormat: "'Sprint' w",
+            headerFormat: 'MMMM yyyy',
+            periodHeaderFormat: 'MMMM yyyy',
+            increment: { weeks: 2 },
+            getGroupKey: (period) => `${period.getFullYear()}-${period.getMonth()}`,
+            alignDate: (date) => {
+              // Sprints start every other Monday, counted from January 6, 2025
+              const origin = new Date(2025, 0, 6).getTime();
+              const length = 14 * 24 * 60 * 60 * 1000;
+              return new Date(origin + Math.floor((date.getTime() - origin) / length) * length);
+            },
+          },
+        }}
+        data={[
+          { id: '1', name: 'Task 1', start: new Date(2025, 2, 10), end: new Date(2025, 3, 10) },
+          { id: '2', name: 'Task 2', start: new Date(2025, 3, 20), end: new Date(2025, 4, 20) },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function Locales() {
+  const data = [
+    { id: '1', name: 'Task 1', start: new Date(2025, 2, 10), end: new Date(2025, 3, 10) },
+    { id: '2', name: 'Task 2', start: new Date(2025, 3, 20), end: new Date(2025, 4, 20) },
+  ];
+
+  return (
+    <div style={{ padding: 40, display: 'flex', flexDirection: 'column', gap: 40 }}>
+      <GanttChart data={data} defaultScale="quarter" locale={de} />
+      <GanttChart data={data} defaultScale="month" locale={ja} />
+    </div>
+  );
+}
+
+export function TimeZones() {
+  const data = [
+    {
+      id: '1',
+      name: 'Release window',
+      start: new Date(Date.UTC(2025, 2, 9, 5)),
+      end: new Date(Date.UTC(2025, 2, 9, 12)),
+    },
+  ];
+
+  return (
+    <div style={{ padding: 40, display: 'flex', flexDirection: 'column', gap: 40 }}>
+      <GanttChart data={data} defaultScale="day" timeZone="America/New_York" />
+      <GanttChart data={data} defaultScale="day" timeZone="Europe/Berlin" />
+      <GanttChart data={data} defaultScale="day" timeZone="Asia/Kolkata" />
+    </div>
+  );
+}
+
+export function WeekNumbers() {
+  const data = [
+    { id: '1', name: 'Task 1', start: new Date(2025, 0, 6), end: new Date(2025, 1, 14) },
+    { id: '2', name: 'Task 2', start: new Date(2025, 1, 17), end: new Date(2025, 3, 4) },
+  ];
+
+  return (
+    <div style={{ padding: 40, display: 'flex', flexDirection: 'column', gap: 40 }}>
+      <GanttChart data={data} defaultScale="quarter" weekLabel="iso-week" />
+      <GanttChart data={data} defaultScale="quarter" weekStartsOn={1} />
+    </div>
+  );
+}
+
+export function Calendar() {
+  const data = [
+    { id: '1', name: 'Task 1', start: new Date(2025, 11, 15), end: new Date(2025, 11, 31) },
+    { id: '2', name: 'Task 2', start: new Date(2026, 0, 5), end: new Date(2026, 0, 16) },
+  ];
+  const calendar = {
+    holidays: [
+      { start: new Date(2025, 11, 24), end: new Date(2025, 11, 26), name: 'Christmas' },
+      { start: new Date(2026, 0, 1), name: 'New Year' },
+    ],
+    workingHours: { start: 9, end: 17 },
+  };
+
+  return (
+    <div style={{ padding: 40, display: 'flex', flexDirection: 'column', gap: 40 }}>
+      <GanttChart data={data} defaultScale="week" calendar={calendar} />
+      <GanttChart data={data} defaultScale="day" calendar={calendar} />
+    </div>
+  );
+}
+
+export function CustomRendering() {
+  const data = [
+    { id: '1', name: 'Design', start: new Date(2025, 2, 3), end: new Date(2025, 2, 14) },
+    { id: '2', name: 'Development', start: new Date(2025, 2, 10), end: new Date(2025, 3, 4) },
+    { id: '3', name: 'Review', start: new Date(2025, 3, 7), end: new Date(2025, 3, 7) },
+  ];
+  const owners: Record<string, string> = { '1': 'AB', '2': 'CD', '3': 'EF' };
+
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        data={data}
+        defaultScale="week"
+        renderTaskLabel={(task, { width, milestone, selected }) => (
+          <span style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <Avatar size={20} radius="xl" color="blue">
+              {owners[task.id]}
+            </Avatar>
+            {(milestone || width > 120) && task.name}
+            {selected && (
+              <Badge size="xs" variant="light">
+                Selected
+              </Badge>
+            )}
+          </span>
+        )}
+        renderTableCell={(task, { column, hovered }) =>
+          column.key === 'name' ? (
+            <span style={{ fontWeight: hovered ? 700 : 400 }}>{task.name}</span>
+          ) : null
+        }
+      />
+    </div>
+  );
+}
+
+export function Colors() {
+  const data: GanttChartData[] = [
+    {
+      id: '1',
+      name: 'Design',
+      start: new Date(2025, 2, 3),
+      end: new Date(2025, 2, 14),
+      color: 'grape',
+    },
+    {
+      id: '2',
+      name: 'Frontend',
+      start: new Date(2025, 2, 10),
+      end: new Date(2025, 2, 28),
+      color: 'blue',
+      variant: 'light',
+      progress: 40,
+    },
+    {
+      id: '3',
+      name: 'Backend',
+      start: new Date(2025, 2, 12),
+      end: new Date(2025, 3, 4),
+      color: 'teal',
+      variant: 'outline',
+    },
+    {
+      id: '4',
+      name: 'Release',
+      start: new Date(2025, 3, 7),
+      end: new Date(2025, 3, 7),
+      color: 'red',
+    },
+  ];
+
+  return (
+    <div style={{ padding: 40, display: 'flex', flexDirection: 'column', gap: 40 }}>
+      <GanttChart data={data} defaultScale="week" />
+      <GanttChart data={data.map(({ color, ...task }) => task)} color="orange" variant="light" />
+    </div>
+  );
+}
+
+export function CriticalPath() {
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart
+        defaultScale="month"
+        showCriticalPath
+        data={[
+          { id: '1', name: 'Design', start: new Date(2025, 2, 3), end: new Date(2025, 2, 10) },
+          {
+            id: '2',
+            name: 'Backend',
+            start: new Date(2025, 2, 10),
+            end: new Date(2025, 2, 28),
+            dependencies: [{ id: '1' }],
+          },
+          {
+            id: '3',
+            name: 'Frontend',
+            start: new Date(2025, 2, 10),
+            end: new Date(2025, 2, 21),
+            dependencies: [{ id: '1' }],
+          },
+          {
+            id: '4',
+            name: 'Testing',
+            start: new Date(2025, 2, 28),
+            end: new Date(2025, 3, 4),
+            dependencies: [{ id: '2' }, { id: '3' }],
+          },
+          {
+            id: '5',
+            name: 'Release',
+            start: new Date(2025, 3, 4),
+            end: new Date(2025, 3, 4),
+            dependencies: [{ id: '4' }],
+          },
+        ]}
+      />
+    </div>
+  );
+}
+
+export function Baselines() {
+  const data: GanttChartData[] = [
+    {
+      id: '1',
+      name: 'Design',
+      start: new Date(2025, 2, 3),
+      end: new Date(2025, 2, 12),
+      baselineStart: new Date(2025, 2, 3),
+      baselineEnd: new Date(2025, 2, 10),
+    },
+    {
+      id: '2',
+      name: 'Development',
+      start: new Date(2025, 2, 12),
+      end: new Date(2025, 2, 26),
+      baselineStart: new Date(2025, 2, 10),
+      baselineEnd: new Date(2025, 2, 28),
+    },
+    {
+      id: '3',
+      name: 'Release',
+      start: new Date(2025, 2, 31),
+      end: new Date(2025, 2, 31),
+      baselineStart: new Date(2025, 2, 28),
+    },
+  ];
+
+  return (
+    <div style={{ padding: 40 }}>
+      <GanttChart data={data} defaultScale="month" />
+    </div>
+  );
+}
+
+export function Zoom() {
+  const [scale, setScale] = useState<GanttChartScale>('week');
+  const data = [
+    { id: '1', name: 'Task 1', start: new Date(2025, 2, 10), end: new Date(2025, 3, 10) },
+    { id: '2', name: 'Task 2', start: new Date(2025, 3, 20), end: new Date(2025, 4, 20) },
+  ];
+
+  return (
+    <div style={{ padding: 40 }}>
+      <p>Zoom with Ctrl or Cmd and the mouse wheel or pinch, current scale: {scale}</p>
+      <GanttChart data={data} scale={scale} onScaleChange={setScale} />
+    </div>
+  );
+}
+
+export function KeyboardNavigation() {
+  const [opened, setOpened] = useState<string | null>(null);
+  const [data, setData] = useState<GanttChartData[]>([
+    { id: '1', name: 'Design', start: new Date(2025, 2, 10), end: new Date(2025, 2, 20) },
+    { id: '2', name: 'Build', start: new Date(2025, 2, 20), end: new Date(2025, 3, 5) },
+    { id: '3', name: 'Release', start: new Date(2025, 3, 5), end: new Date(2025, 3, 5) },
+  ]);
+
+  return (
+    <div style={{ padding: 40 }}>
+      <p>Tab into the chart, use the arrows, Shift + arrows, + / - and Enter. Opened: {opened}</p>
+      <GanttChart
+        data={data}
+        defaultScale="week"
+        onTaskOpen={(task) => setOpened(task.name)}
+        onTaskChange={(task, change) =>
+          setData((current) => current.map((d) => (d.id === task.id ? { ...d, ...change } : d)))
+        }
       />
     </div>
   );
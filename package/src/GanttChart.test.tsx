@@ -1,7 +1,11 @@
 import React from 'react'
+import { Day } from 'date-fns'
+import { de } from 'date-fns/locale'
 import { MantineProvider } from '@mantine/core'
-import { render, screen } from '@testing-library/react'
-import { GanttChart } from './GanttChart'
+import { act, fireEvent, render, screen } from '@testing-library/react'
+import {
+    GanttChart, GanttChartData, GanttChartHandle, GanttChartTaskRenderState
+} from './GanttChart'
 
 const mockData = [
   {
@@ -142,4 +146,973 @@ describe('GanttChart', () => {
       screen.getByText('Long Task', { selector: '.mantine-GanttChart-task' })
     ).toBeInTheDocument();
   });
+
+  it('uses defaultScale as the initial scale', () => {
+    const { container } = renderWithMantine(<GanttChart data={mockData} defaultScale="month" />);
+
+    expect(container.querySelector('.mantine-GanttChart-dateCell')).toHaveAttribute(
+      'data-scale',
+      'month'
+    );
+  });
+
+  it('calls onScaleChange and keeps controlled scale', async () => {
+    const onScaleChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} scale="week" onScaleChange={onScaleChange} />
+    );
+
+    fireEvent.click(screen.getByRole('textbox'));
+    fireEvent.click(await screen.findByRole('option', { name: 'Month' }));
+
+    expect(onScaleChange).toHaveBeenCalledWith('month');
+    expect(container.querySelector('.mantine-GanttChart-dateCell')).toHaveAttribute(
+      'data-scale',
+      'week'
+    );
+  });
+
+  it('limits scale options with scales prop', async () => {
+    renderWithMantine(<GanttChart data={mockData} scales={['month', 'week']} />);
+
+    fireEvent.click(screen.getByRole('textbox'));
+    const options = await screen.findAllByRole('option');
+
+    expect(options.map((option) => option.textContent)).toEqual(['Month', 'Week']);
+  });
+
+  it('moves task by dragging and calls onTaskChange with snapped dates', () => {
+    const onTaskChange = jest.fn();
+    const task = {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 5),
+    };
+    renderWithMantine(
+      <GanttChart data={[task]} defaultScale="month" onTaskChange={onTaskChange} />
+    );
+
+    const bar = screen.getByText('Task 1', { selector: '.mantine-GanttChart-task' });
+
+    // Month scale periods are 1 day wide (1.75rem = 28px), 60px is a bit over 2 days
+    fireEvent.pointerDown(bar, { button: 0, clientX: 100 });
+    fireEvent.pointerMove(document, { clientX: 160 });
+    expect(bar).toHaveAttribute('data-dragging');
+
+    fireEvent.pointerUp(document, { clientX: 160 });
+    expect(bar).not.toHaveAttribute('data-dragging');
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: new Date(2024, 0, 3),
+      end: new Date(2024, 0, 7),
+    });
+  });
+
+  it('does not snap dragged task when snapToPeriod is false', () => {
+    const onTaskChange = jest.fn();
+    const task = {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 5),
+    };
+    renderWithMantine(
+      <GanttChart
+        data={[task]}
+        defaultScale="month"
+        snapToPeriod={false}
+        onTaskChange={onTaskChange}
+      />
+    );
+
+    const bar = screen.getByText('Task 1', { selector: '.mantine-GanttChart-task' });
+    fireEvent.pointerDown(bar, { button: 0, clientX: 100 });
+    fireEvent.pointerMove(document, { clientX: 114 });
+    fireEvent.pointerUp(document, { clientX: 114 });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: new Date(2024, 0, 1, 12),
+      end: new Date(2024, 0, 5, 12),
+    });
+  });
+
+  it('resizes task from the end edge and blocks negative durations', () => {
+    const onTaskChange = jest.fn();
+    const task = {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 5),
+    };
+    renderWithMantine(
+      <GanttChart data={[task]} defaultScale="month" onTaskChange={onTaskChange} />
+    );
+
+    const bar = screen.getByText('Task 1', { selector: '.mantine-GanttChart-task' });
+    const endHandle = screen.getByRole('slider', { name: 'Resize end of Task 1' });
+
+    // Drag the end far to the left of the start
+    fireEvent.pointerDown(endHandle, { button: 0, clientX: 300 });
+    fireEvent.pointerMove(document, { clientX: 0 });
+    expect(bar).toHaveAttribute('data-resizing', 'end');
+
+    fireEvent.pointerUp(document, { clientX: 0 });
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 2),
+    });
+  });
+
+  it('keeps resized tasks at least one calendar month long on month periods', () => {
+    const onTaskChange = jest.fn();
+    const tasks = [
+      { id: '1', name: 'Task 1', start: new Date(2024, 1, 1), end: new Date(2024, 3, 1) },
+      { id: '2', name: 'Task 2', start: new Date(2024, 0, 1), end: new Date(2024, 1, 1) },
+    ];
+    renderWithMantine(
+      <GanttChart data={tasks} defaultScale="5-years" onTaskChange={onTaskChange} />
+    );
+
+    const endHandle = screen.getByRole('slider', { name: 'Resize end of Task 1' });
+    fireEvent.pointerDown(endHandle, { button: 0, clientX: 300 });
+    fireEvent.pointerMove(document, { clientX: 0 });
+    fireEvent.pointerUp(document, { clientX: 0 });
+    expect(onTaskChange).toHaveBeenCalledWith(tasks[0], {
+      start: new Date(2024, 1, 1),
+      end: new Date(2024, 2, 1),
+    });
+
+    onTaskChange.mockClear();
+    fireEvent.keyDown(screen.getByRole('slider', { name: 'Resize end of Task 2' }), {
+      key: 'ArrowLeft',
+    });
+    expect(onTaskChange).not.toHaveBeenCalled();
+  });
+
+  it('resizes task start with keyboard', () => {
+    const onTaskChange = jest.fn();
+    const task = {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2024, 0, 3),
+      end: new Date(2024, 0, 5),
+    };
+    renderWithMantine(
+      <GanttChart data={[task]} defaultScale="month" onTaskChange={onTaskChange} />
+    );
+
+    const startHandle = screen.getByRole('slider', { name: 'Resize start of Task 1' });
+    fireEvent.keyDown(startHandle, { key: 'ArrowLeft' });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: new Date(2024, 0, 2),
+      end: new Date(2024, 0, 5),
+    });
+  });
+
+  it('renders dependency arrows between tasks', () => {
+    const { container } = renderWithMantine(
+      <GanttChart
+        data={[
+          ...mockData,
+          {
+            id: '3',
+            name: 'Task 3',
+            start: new Date('2024-01-08'),
+            end: new Date('2024-01-10'),
+            dependencies: [{ id: '1' }, { id: '2', type: 'start-to-start' }, { id: 'missing' }],
+          },
+        ]}
+      />
+    );
+
+    const lines = container.querySelectorAll('.mantine-GanttChart-dependencyLine');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toHaveAttribute('data-type', 'finish-to-start');
+    expect(lines[1]).toHaveAttribute('data-type', 'start-to-start');
+  });
+
+  it('collapses and expands child tasks', () => {
+    const onExpandedChange = jest.fn();
+    renderWithMantine(
+      <GanttChart
+        data={[
+          { id: 'parent', name: 'Parent', start: new Date(2024, 0, 1), end: new Date(2024, 0, 2) },
+          { ...mockData[0], parentId: 'parent' },
+        ]}
+        onExpandedChange={onExpandedChange}
+      />
+    );
+
+    expect(
+      screen.getByText('Task 1', { selector: '.mantine-GanttChart-task' })
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse Parent' }));
+
+    expect(onExpandedChange).toHaveBeenCalledWith([]);
+    expect(
+      screen.queryByText('Task 1', { selector: '.mantine-GanttChart-task' })
+    ).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Expand Parent' })).toHaveAttribute(
+      'aria-expanded',
+      'false'
+    );
+  });
+
+  it('expands parent tasks of data loaded after mount', () => {
+    const parent = {
+      id: 'parent',
+      name: 'Parent',
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 2),
+    };
+    const { rerender } = renderWithMantine(<GanttChart data={[]} />);
+
+    rerender(
+      <MantineProvider>
+        <GanttChart data={[parent, { ...mockData[0], parentId: 'parent' }]} />
+      </MantineProvider>
+    );
+    expect(
+      screen.getByText('Task 1', { selector: '.mantine-GanttChart-task' })
+    ).toBeInTheDocument();
+
+    // Collapsed parents stay collapsed when more tasks are loaded
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse Parent' }));
+    rerender(
+      <MantineProvider>
+        <GanttChart
+          data={[parent, { ...mockData[0], parentId: 'parent' }, { ...mockData[1], parentId: '1' }]}
+        />
+      </MantineProvider>
+    );
+    expect(
+      screen.queryByText('Task 1', { selector: '.mantine-GanttChart-task' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('keeps parents missing from defaultExpandedIds collapsed when data is loaded', () => {
+    const data = [
+      { id: 'parent', name: 'Parent', start: new Date(2024, 0, 1), end: new Date(2024, 0, 2) },
+      { ...mockData[0], parentId: 'parent' },
+      { id: 'other', name: 'Other', start: new Date(2024, 0, 1), end: new Date(2024, 0, 2) },
+      { ...mockData[1], parentId: 'other' },
+    ];
+    const { rerender } = renderWithMantine(<GanttChart data={[]} defaultExpandedIds={['other']} />);
+
+    rerender(
+      <MantineProvider>
+        <GanttChart data={data} defaultExpandedIds={['other']} />
+      </MantineProvider>
+    );
+    expect(
+      screen.queryByText('Task 1', { selector: '.mantine-GanttChart-task' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByText('Task 2', { selector: '.mantine-GanttChart-task' })
+    ).toBeInTheDocument();
+  });
+
+  it('renders milestones for items with equal start and end', () => {
+    renderWithMantine(
+      <GanttChart
+        data={[
+          ...mockData,
+          { id: '3', name: 'Release', start: new Date(2024, 0, 8), end: new Date(2024, 0, 8) },
+          {
+            id: '4',
+            name: 'Review',
+            type: 'milestone',
+            start: new Date(2024, 0, 9),
+            end: new Date(2024, 0, 10),
+          },
+        ]}
+      />
+    );
+
+    expect(
+      screen.getByText('Release', { selector: '.mantine-GanttChart-milestone' })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Review', { selector: '.mantine-GanttChart-milestone' })
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText('Release', { selector: '.mantine-GanttChart-task' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen
+        .getByText('Release', { selector: '.mantine-GanttChart-taskName' })
+        .closest('.mantine-GanttChart-tableCell')
+    ).toHaveAttribute('data-milestone');
+  });
+
+  it('renders progress fill and changes progress by dragging the handle', () => {
+    const onTaskChange = jest.fn();
+    const task = {
+      id: '1',
+      name: 'Task 1',
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 11),
+      progress: 50,
+    };
+    const { container } = renderWithMantine(
+      <GanttChart data={[task]} defaultScale="month" onTaskChange={onTaskChange} />
+    );
+
+    expect(container.querySelector('.mantine-GanttChart-taskProgress')).toHaveStyle({
+      width: '50%',
+    });
+
+    // Task is 10 days long, 28px per day, 56px is 20%
+    const handle = screen.getByRole('slider', { name: 'Progress of Task 1' });
+    fireEvent.pointerDown(handle, { button: 0, clientX: 100 });
+    fireEvent.pointerMove(document, { clientX: 156 });
+    fireEvent.pointerUp(document, { clientX: 156 });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: task.start,
+      end: task.end,
+      progress: 70,
+    });
+  });
+
+  it('changes progress with keyboard', () => {
+    const onTaskChange = jest.fn();
+    const task = { ...mockData[0], progress: 100 };
+    renderWithMantine(<GanttChart data={[task]} onTaskChange={onTaskChange} />);
+
+    const handle = screen.getByRole('slider', { name: 'Progress of Task 1' });
+    fireEvent.keyDown(handle, { key: 'ArrowRight' });
+    expect(onTaskChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(handle, { key: 'ArrowLeft' });
+    expect(onTaskChange).toHaveBeenCalledWith(task, {
+      start: task.start,
+      end: task.end,
+      progress: 95,
+    });
+  });
+
+  it('renders custom columns and sorts table and timeline rows', () => {
+    const onSortChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart
+        data={mockData}
+        onSortChange={onSortChange}
+        columns={[
+          { key: 'name', label: 'Task', accessor: 'name' },
+          { key: 'end', label: 'End', accessor: 'end', width: 100 },
+          { key: 'custom', label: 'Custom', render: (task) => `#${task.id}` },
+        ]}
+      />
+    );
+
+    expect(screen.getByText('#1')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Custom' })).not.toBeInTheDocument();
+
+    const getOrder = (selector: string) =>
+      Array.from(container.querySelectorAll(selector)).map((node) => node.textContent);
+
+    fireEvent.click(screen.getByRole('button', { name: 'End' }));
+    fireEvent.click(screen.getByRole('button', { name: 'End' }));
+
+    expect(onSortChange).toHaveBeenLastCalledWith({ key: 'end', direction: 'desc' });
+    expect(screen.getByText('End').closest('.mantine-GanttChart-tableHeaderCell')).toHaveAttribute(
+      'aria-sort',
+      'descending'
+    );
+    expect(getOrder('.mantine-GanttChart-taskName')).toEqual(['Task 2', 'Task 1']);
+    expect(getOrder('.mantine-GanttChart-task')).toEqual(['Task 2', 'Task 1']);
+  });
+
+  it('resizes table with the splitter', () => {
+    const onTableWidthChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart
+        data={mockData}
+        defaultTableWidth={200}
+        maxTableWidth={300}
+        onTableWidthChange={onTableWidthChange}
+      />
+    );
+
+    const table = container.querySelector('.mantine-GanttChart-table');
+    const splitter = screen.getByRole('separator', { name: 'Resize task table' });
+    expect(table).toHaveStyle({ width: '200px' });
+
+    fireEvent.keyDown(splitter, { key: 'ArrowRight' });
+    expect(onTableWidthChange).toHaveBeenLastCalledWith(216);
+    expect(table).toHaveStyle({ width: '216px' });
+
+    fireEvent.pointerDown(splitter, { button: 0, clientX: 100 });
+    fireEvent.pointerMove(document, { clientX: 500 });
+    fireEvent.pointerUp(document, { clientX: 500 });
+    expect(onTableWidthChange).toHaveBeenLastCalledWith(300);
+
+    fireEvent.keyDown(splitter, { key: 'Home' });
+    expect(onTableWidthChange).toHaveBeenLastCalledWith(160);
+  });
+
+  it('exposes the natural table width as the splitter value', () => {
+    const getBoundingClientRect = jest
+      .spyOn(HTMLElement.prototype, 'getBoundingClientRect')
+      .mockReturnValue({ width: 240.4 } as DOMRect);
+    renderWithMantine(<GanttChart data={mockData} />);
+    getBoundingClientRect.mockRestore();
+
+    expect(screen.getByRole('separator', { name: 'Resize task table' })).toHaveAttribute(
+      'aria-valuenow',
+      '240'
+    );
+  });
+
+  it('renders only rows in the vertical viewport', () => {
+    const manyTasks = Array.from({ length: 1000 }, (_, index) => ({
+      id: String(index),
+      name: `Row ${index}`,
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 0, 5),
+    }));
+    const { container } = renderWithMantine(<GanttChart data={manyTasks} />);
+
+    const getNames = (selector: string) =>
+      Array.from(container.querySelectorAll(selector)).map((node) => node.textContent);
+
+    expect(getNames('.mantine-GanttChart-taskName').length).toBeLessThan(50);
+
+    const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+    Object.defineProperty(scrollArea, 'clientHeight', { value: 400 });
+    scrollArea.scrollTop = 2000;
+    fireEvent.scroll(scrollArea);
+
+    // (2000 - 64) / 40 = 48.4, 10 rows of overscan on each side
+    const tableNames = getNames('.mantine-GanttChart-taskName');
+    expect(tableNames[0]).toBe('Row 38');
+    expect(tableNames[tableNames.length - 1]).toBe('Row 68');
+    expect(getNames('.mantine-GanttChart-task')).toEqual(tableNames);
+  });
+
+  it('positions tasks of any distance and length on the timeline', () => {
+    const data = [
+      ...mockData,
+      {
+        id: 'long',
+        name: 'Long task',
+        start: new Date('2020-01-01'),
+        end: new Date('2028-01-01'),
+      },
+    ];
+
+    const { container } = renderWithMantine(<GanttChart data={data} />);
+    const task = (name: string) =>
+      screen.getByText(name, { selector: '.mantine-GanttChart-task' }) as HTMLElement;
+
+    expect(task('Long task').style.display).not.toBe('none');
+    expect(parseFloat(task('Long task').style.left)).toBeLessThan(
+      parseFloat(task('Task 1').style.left)
+    );
+    expect(parseFloat(task('Long task').style.width)).toBeGreaterThan(
+      parseFloat(task('Task 1').style.width) * 100
+    );
+
+    // Periods are generated for the viewport only
+    expect(container.querySelectorAll('.mantine-GanttChart-dateCell').length).toBeLessThan(200);
+  });
+
+  describe('chartRef', () => {
+    beforeEach(() => {
+      jest.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(1000);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('scrolls to dates far from the displayed range', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      renderWithMantine(<GanttChart data={mockData} chartRef={chartRef} />);
+
+      const date = new Date('2031-06-15T12:00:00');
+      act(() => chartRef.current!.scrollToDate(date));
+
+      const range = chartRef.current!.getVisibleRange();
+      expect(range.start.getTime()).toBeLessThan(date.getTime());
+      expect(range.end.getTime()).toBeGreaterThan(date.getTime());
+      expect(date.getTime() - range.start.getTime()).toBeCloseTo(
+        range.end.getTime() - date.getTime(),
+        -3
+      );
+    });
+
+    it('expands collapsed ancestors of the task it scrolls to', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      const onExpandedChange = jest.fn();
+      const { container } = renderWithMantine(
+        <GanttChart
+          data={[
+            { id: 'epic', name: 'Epic', start: new Date(2024, 0, 1), end: new Date(2024, 0, 2) },
+            { ...mockData[0], id: 'story', name: 'Story', parentId: 'epic' },
+            { ...mockData[1], id: 'subtask', parentId: 'story' },
+          ]}
+          chartRef={chartRef}
+          defaultExpandedIds={[]}
+          onExpandedChange={onExpandedChange}
+        />
+      );
+      const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+
+      act(() => chartRef.current!.scrollToTask('subtask'));
+      expect(onExpandedChange).toHaveBeenCalledWith(['story', 'epic']);
+      expect(
+        screen.getByText('Task 2', { selector: '.mantine-GanttChart-task' })
+      ).toBeInTheDocument();
+      expect(scrollArea.scrollTop).toBeGreaterThan(0);
+    });
+
+    it('changes scale', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      const onScaleChange = jest.fn();
+      renderWithMantine(
+        <GanttChart data={mockData} chartRef={chartRef} onScaleChange={onScaleChange} />
+      );
+
+      act(() => chartRef.current!.setScale('week'));
+      expect(onScaleChange).toHaveBeenCalledWith('week');
+    });
+
+    it('keeps the date in the viewport center when scale changes', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      renderWithMantine(<GanttChart data={mockData} chartRef={chartRef} />);
+
+      const date = new Date('2031-06-15T12:00:00');
+      act(() => chartRef.current!.scrollToDate(date));
+      act(() => chartRef.current!.setScale('month'));
+
+      const range = chartRef.current!.getVisibleRange();
+      expect((range.start.getTime() + range.end.getTime()) / 2).toBeCloseTo(date.getTime(), -3);
+    });
+
+    it('keeps the selected task in its place when scale changes', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      const { container } = renderWithMantine(
+        <GanttChart data={mockData} chartRef={chartRef} defaultSelectedTaskId="2" />
+      );
+      const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+      const getTaskOffset = () =>
+        parseFloat(
+          screen.getByText('Task 2', { selector: '.mantine-GanttChart-task' }).style.left
+        ) - scrollArea.scrollLeft;
+
+      act(() => chartRef.current!.scrollToDate(mockData[1].start, { align: 'start' }));
+      fireEvent.scroll(scrollArea);
+      const offset = getTaskOffset();
+
+      act(() => chartRef.current!.setScale('week'));
+      expect(getTaskOffset()).toBeCloseTo(offset);
+    });
+
+    it('fits all tasks into the viewport', () => {
+      const chartRef = React.createRef<GanttChartHandle>();
+      const onScaleChange = jest.fn();
+      renderWithMantine(
+        <GanttChart data={mockData} chartRef={chartRef} onScaleChange={onScaleChange} />
+      );
+
+      act(() => chartRef.current!.fitToData());
+
+      // 6 days fit into 1000px with the wide daily periods of the week scale
+      expect(onScaleChange).toHaveBeenCalledWith('week');
+      const range = chartRef.current!.getVisibleRange();
+      expect(range.start.getTime()).toBeLessThanOrEqual(mockData[0].start.getTime());
+      expect(range.end.getTime()).toBeGreaterThanOrEqual(mockData[1].end.getTime());
+    });
+  });
+
+  it('reports the visible range after scrolling', () => {
+    jest.useFakeTimers();
+    const onVisibleRangeChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} onVisibleRangeChange={onVisibleRangeChange} />
+    );
+
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(onVisibleRangeChange).toHaveBeenCalledTimes(1);
+    const [initial] = onVisibleRangeChange.mock.calls[0];
+    expect(initial.scale).toBe('day');
+    expect(initial.start.getTime()).toBeLessThanOrEqual(initial.end.getTime());
+
+    const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea') as HTMLElement;
+    for (let step = 1; step <= 3; step += 1) {
+      scrollArea.scrollLeft += 100;
+      fireEvent.scroll(scrollArea);
+    }
+
+    act(() => {
+      jest.runAllTimers();
+    });
+    expect(onVisibleRangeChange).toHaveBeenCalledTimes(2);
+    const [scrolled] = onVisibleRangeChange.mock.calls[1];
+    expect(scrolled.start.getTime()).toBeGreaterThan(initial.start.getTime());
+
+    jest.useRealTimers();
+  });
+
+  it('renders loading indicators at the timeline edges', () => {
+    const { container, rerender } = renderWithMantine(<GanttChart data={mockData} />);
+    expect(container.querySelector('.mantine-GanttChart-loadingIndicator')).toBeNull();
+
+    rerender(
+      <MantineProvider>
+        <GanttChart data={mockData} loadingLeft loadingRight />
+      </MantineProvider>
+    );
+
+    expect(screen.getByLabelText('Loading earlier tasks')).toHaveClass(
+      'mantine-GanttChart-loadingIndicator',
+      'mantine-GanttChart-loadingIndicatorLeft'
+    );
+    expect(screen.getByLabelText('Loading later tasks')).toHaveClass(
+      'mantine-GanttChart-loadingIndicator',
+      'mantine-GanttChart-loadingIndicatorRight'
+    );
+  });
+
+  it('lists custom scales in the scale select', () => {
+    renderWithMantine(
+      <GanttChart
+        data={mockData}
+        defaultScale="shift"
+        periodConfigs={{
+          day: { label: 'Hourly' },
+          shift: {
+            label: 'Shift',
+            width: 4,
+            labelFormat: 'HH:mm',
+            headerFormat: 'MMMM d, yyyy',
+            periodHeaderFormat: 'MMMM d',
+            increment: { minutes: 5 },
+            alignDate: (date) => {
+              const aligned = new Date(date);
+              aligned.setMinutes(Math.floor(date.getMinutes() / 5) * 5, 0, 0);
+              return aligned;
+            },
+          },
+        }}
+      />
+    );
+
+    expect(screen.getByDisplayValue('Shift')).toBeInTheDocument();
+    expect(document.querySelector('.mantine-GanttChart-dateCell')).toHaveAttribute(
+      'data-scale',
+      'shift'
+    );
+
+    fireEvent.click(screen.getByDisplayValue('Shift'));
+    expect(screen.getByRole('option', { name: 'Hourly', hidden: true })).toBeInTheDocument();
+  });
+
+  it('formats dates with the locale', () => {
+    renderWithMantine(<GanttChart data={mockData} defaultScale="week" locale={de} />);
+
+    expect(
+      screen.getAllByText('Januar', { selector: '.mantine-GanttChart-periodHeader' }).length
+    ).toBeGreaterThan(0);
+    expect(
+      screen.getByText('Januar 2024', { selector: '.mantine-GanttChart-periodInfo' })
+    ).toBeInTheDocument();
+  });
+
+  it('renders dates in the time zone', () => {
+    const data = [
+      {
+        id: '1',
+        name: 'Task 1',
+        start: new Date(Date.UTC(2024, 0, 1, 20)),
+        end: new Date(Date.UTC(2024, 0, 3, 20)),
+      },
+    ];
+    const columns = [{ key: 'start', label: 'Start', accessor: 'start' as const }];
+
+    const { unmount } = renderWithMantine(
+      <GanttChart data={data} columns={columns} timeZone="UTC" />
+    );
+    expect(screen.getByText('Jan 1, 2024')).toBeInTheDocument();
+    unmount();
+
+    renderWithMantine(<GanttChart data={data} columns={columns} timeZone="Asia/Tokyo" />);
+    expect(screen.getByText('Jan 2, 2024')).toBeInTheDocument();
+  });
+
+  it('labels week periods with ISO week numbers', () => {
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} defaultScale="quarter" weekLabel="iso-week" />
+    );
+
+    const labels = Array.from(container.querySelectorAll('.mantine-GanttChart-dateCell')).map(
+      (cell) => cell.textContent
+    );
+    const firstWeek = labels.indexOf('1');
+
+    // December 25, 2023 starts the last ISO week of 2023, weeks start on Monday
+    expect(labels.slice(firstWeek - 1, firstWeek + 2)).toEqual(['52', '1', '2']);
+  });
+
+  it('marks non-working days and holidays of the calendar', () => {
+    const calendar = {
+      workingDays: [0, 1, 2, 3, 4] as Day[],
+      holidays: [{ start: new Date(2024, 0, 1), name: 'New Year' }],
+    };
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} defaultScale="week" calendar={calendar} />
+    );
+
+    const cells = Array.from(container.querySelectorAll('.mantine-GanttChart-dateCell'));
+    const holiday = screen.getByTitle('New Year');
+    const index = cells.indexOf(holiday);
+
+    expect(holiday).toHaveAttribute('data-mark-type', 'holiday');
+    // January 1, 2024 is Monday, Friday and Saturday are weekend and Sunday is a working day
+    expect(
+      cells.slice(index + 4, index + 7).map((cell) => cell.getAttribute('data-mark-type'))
+    ).toEqual(['weekend', 'weekend', 'major']);
+    expect(
+      container.querySelectorAll(".mantine-GanttChart-periodGridLine[data-mark-type='holiday']")
+    ).toHaveLength(1);
+  });
+
+  it('renders custom task content and table cells', () => {
+    const renderTask = jest.fn<React.ReactNode, [GanttChartData, GanttChartTaskRenderState]>(
+      (task) => <span>{`Bar ${task.name}`}</span>
+    );
+    renderWithMantine(
+      <GanttChart
+        data={mockData}
+        defaultScale="week"
+        renderTask={renderTask}
+        renderTableCell={(task, { column }) => `${column.key}: ${task.name}`}
+      />
+    );
+
+    expect(screen.getByText('Bar Task 1', { selector: 'span' })).toBeInTheDocument();
+    expect(screen.getByText('name: Task 2')).toBeInTheDocument();
+
+    const [task, state] = renderTask.mock.calls.find(([t]) => t.id === '1')!;
+    expect(task).toBe(mockData[0]);
+    expect(state).toMatchObject({ scale: 'week', selected: false, milestone: false });
+    // Week scale periods are 7rem wide days
+    expect(state.width).toBe(4 * 112);
+  });
+
+  it('passes selected and hovered state to custom labels', () => {
+    const onSelectedTaskChange = jest.fn();
+    const renderTaskLabel = (
+      task: GanttChartData,
+      { selected, hovered }: GanttChartTaskRenderState
+    ) => `${task.name}${selected ? ' selected' : ''}${hovered ? ' hovered' : ''}`;
+    const { container } = renderWithMantine(
+      <GanttChart
+        data={mockData}
+        renderTaskLabel={renderTaskLabel}
+        onSelectedTaskChange={onSelectedTaskChange}
+      />
+    );
+
+    fireEvent.mouseEnter(container.querySelector('.mantine-GanttChart-tableCell')!);
+    expect(screen.getByText('Task 1 hovered')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Task 2', { selector: '.mantine-GanttChart-task' }));
+    expect(onSelectedTaskChange).toHaveBeenCalledWith('2');
+    expect(screen.getByText('Task 2 selected')).toHaveAttribute('data-selected');
+  });
+
+  it('resolves task colors and variants with the theme', () => {
+    const data = [
+      { ...mockData[0], color: 'red', variant: 'light' as const },
+      { ...mockData[1], color: '#ff8800' },
+    ];
+    const { container } = renderWithMantine(<GanttChart data={data} color="teal" />);
+
+    const root = container.querySelector('.mantine-GanttChart-root') as HTMLElement;
+    expect(root.style.getPropertyValue('--gantt-task-bg')).toBe('var(--mantine-color-teal-filled)');
+
+    const [light, custom] = Array.from(
+      container.querySelectorAll<HTMLElement>('.mantine-GanttChart-task')
+    );
+    expect(light.style.getPropertyValue('--gantt-task-bg')).toBe('var(--mantine-color-red-light)');
+    expect(light.style.getPropertyValue('--gantt-task-color')).toBe(
+      'var(--mantine-color-red-light-color)'
+    );
+    expect(custom.style.getPropertyValue('--gantt-task-bg')).toBe('#ff8800');
+  });
+
+  it('highlights the critical path', () => {
+    const data = [
+      { id: '1', name: 'Task 1', start: new Date(2024, 0, 1), end: new Date(2024, 0, 3) },
+      {
+        id: '2',
+        name: 'Task 2',
+        start: new Date(2024, 0, 3),
+        end: new Date(2024, 0, 8),
+        dependencies: [{ id: '1' }],
+      },
+      {
+        id: '3',
+        name: 'Task 3',
+        start: new Date(2024, 0, 3),
+        end: new Date(2024, 0, 5),
+        dependencies: [{ id: '1' }],
+      },
+    ];
+    const { container } = renderWithMantine(
+      <GanttChart data={data} defaultScale="week" showCriticalPath />
+    );
+
+    const getTask = (name: string) =>
+      screen.getByText(name, { selector: '.mantine-GanttChart-task' });
+    expect(getTask('Task 1')).toHaveAttribute('data-critical');
+    expect(getTask('Task 2')).toHaveAttribute('data-critical');
+    expect(getTask('Task 3')).not.toHaveAttribute('data-critical');
+    expect(container.querySelector('[data-from="1"][data-to="2"]')).toHaveAttribute(
+      'data-critical'
+    );
+    expect(container.querySelector('[data-from="1"][data-to="3"]')).not.toHaveAttribute(
+      'data-critical'
+    );
+  });
+
+  it('renders baselines with the schedule variance', () => {
+    const data = [
+      {
+        ...mockData[0],
+        baselineStart: new Date('2024-01-01'),
+        baselineEnd: new Date('2024-01-03'),
+      },
+      {
+        ...mockData[1],
+        baselineStart: new Date('2024-01-03'),
+        baselineEnd: new Date('2024-01-08'),
+      },
+    ];
+    const { container } = renderWithMantine(<GanttChart data={data} defaultScale="week" />);
+
+    const [task] = Array.from(container.querySelectorAll<HTMLElement>('.mantine-GanttChart-task'));
+    const [baseline] = Array.from(
+      container.querySelectorAll<HTMLElement>('.mantine-GanttChart-baseline')
+    );
+    expect(baseline.style.left).toBe(task.style.left);
+    expect(baseline.style.width).toBe(`${2 * 112}px`);
+
+    expect(screen.getByTitle('2 days behind baseline')).toHaveTextContent('+2d');
+    expect(screen.getByTitle('2 days behind baseline')).toHaveAttribute('data-variance', 'behind');
+    expect(screen.getByTitle('1 day ahead of baseline')).toHaveTextContent('-1d');
+  });
+
+  it('zooms with Ctrl and the wheel keeping the date under the cursor', () => {
+    const chartRef = React.createRef<GanttChartHandle>();
+    const onScaleChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} chartRef={chartRef} onScaleChange={onScaleChange} />
+    );
+    const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+    const getCellWidth = () =>
+      parseFloat(container.querySelector<HTMLElement>('.mantine-GanttChart-dateCell')!.style.width);
+
+    // The viewport has no width in jsdom, the cursor is at its left edge
+    const { start } = chartRef.current!.getVisibleRange();
+    fireEvent.wheel(scrollArea, { ctrlKey: true, deltaY: -100, clientX: 0 });
+
+    expect(getCellWidth()).toBeCloseTo(48 * Math.exp(0.2));
+    expect(
+      Math.abs(chartRef.current!.getVisibleRange().start.getTime() - start.getTime())
+    ).toBeLessThan(1000);
+
+    fireEvent.wheel(scrollArea, { deltaY: 1000, clientX: 0 });
+    expect(getCellWidth()).toBeCloseTo(48 * Math.exp(0.2));
+
+    fireEvent.wheel(scrollArea, { ctrlKey: true, deltaY: 1000, clientX: 0 });
+    expect(onScaleChange).toHaveBeenCalledWith('week');
+  });
+
+  it('accumulates zoom events that arrive before the chart renders', () => {
+    const { container } = renderWithMantine(<GanttChart data={mockData} />);
+    const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+    const zoomIn = () =>
+      scrollArea.dispatchEvent(
+        new WheelEvent('wheel', { ctrlKey: true, deltaY: -100, clientX: 0, cancelable: true })
+      );
+
+    act(() => {
+      zoomIn();
+      zoomIn();
+    });
+
+    expect(
+      parseFloat(container.querySelector<HTMLElement>('.mantine-GanttChart-dateCell')!.style.width)
+    ).toBeCloseTo(48 * Math.exp(0.4));
+  });
+
+  it('exposes tasks as a treegrid with dated gridcells', () => {
+    const data = [
+      { id: '1', name: 'Task 1', start: new Date(2024, 0, 1), end: new Date(2024, 0, 5) },
+      { id: '2', name: 'Task 2', start: new Date(2024, 0, 3), end: new Date(2024, 0, 7) },
+    ];
+    renderWithMantine(<GanttChart data={data} showTable={false} />);
+
+    const treegrid = screen.getByRole('treegrid', { name: 'Gantt chart' });
+    expect(treegrid).toHaveAttribute('aria-rowcount', '2');
+    expect(screen.getAllByRole('row')).toHaveLength(2);
+    expect(
+      screen.getByRole('gridcell', { name: 'Task 1, Jan 1, 2024 – Jan 5, 2024' })
+    ).toHaveAttribute('tabindex', '0');
+    expect(
+      screen.getByRole('gridcell', { name: 'Task 2, Jan 3, 2024 – Jan 7, 2024' })
+    ).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('moves focus between rows and opens tasks with the keyboard', () => {
+    const onTaskOpen = jest.fn();
+    renderWithMantine(<GanttChart data={mockData} onTaskOpen={onTaskOpen} />);
+    const [first, second] = screen
+      .getAllByRole('row')
+      .map((row) => row.querySelector<HTMLElement>('.mantine-GanttChart-task')!);
+
+    act(() => first.focus());
+    fireEvent.keyDown(first, { key: 'ArrowDown' });
+    expect(second).toHaveFocus();
+    expect(second).toHaveAttribute('tabindex', '0');
+    expect(first).toHaveAttribute('tabindex', '-1');
+
+    fireEvent.keyDown(second, { key: 'Enter' });
+    expect(onTaskOpen).toHaveBeenCalledWith(mockData[1]);
+
+    fireEvent.keyDown(second, { key: 'Home' });
+    expect(first).toHaveFocus();
+  });
+
+  it('moves the focused task, pans and zooms the timeline with the keyboard', () => {
+    const onTaskChange = jest.fn();
+    const { container } = renderWithMantine(
+      <GanttChart data={mockData} onTaskChange={onTaskChange} />
+    );
+    const scrollArea = container.querySelector('.mantine-GanttChart-scrollArea')!;
+    const task = container.querySelector<HTMLElement>('.mantine-GanttChart-task')!;
+    const getCellWidth = () =>
+      parseFloat(container.querySelector<HTMLElement>('.mantine-GanttChart-dateCell')!.style.width);
+
+    fireEvent.keyDown(task, { key: 'ArrowRight', shiftKey: true });
+    expect(onTaskChange).toHaveBeenCalledWith(mockData[0], {
+      start: new Date('2024-01-01T01:00:00Z'),
+      end: new Date('2024-01-05T01:00:00Z'),
+    });
+
+    const { scrollLeft } = scrollArea;
+    fireEvent.keyDown(task, { key: 'ArrowRight' });
+    expect(scrollArea.scrollLeft).toBe(scrollLeft + 48);
+
+    fireEvent.keyDown(task, { key: '+' });
+    expect(getCellWidth()).toBeCloseTo(48 * 1.25);
+  });
 });
@@ -1,12 +1,38 @@
-import { add, differenceInMilliseconds, format } from 'date-fns'
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { add, Day, differenceInCalendarDays, format, Locale } from 'date-fns'
+import { TZDate } from '@date-fns/tz'
+import React, {
+    useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState
+} from 'react'
 import {
     ActionIcon, Box, BoxProps, Button, createVarsResolver, ElementProps, factory, Factory,
-    getThemeColor, MantineColor, Select, StylesApiProps, useProps, useStyles
+    getThemeColor, Loader, MantineColor, MantineTheme, Select, StylesApiProps, UnstyledButton,
+    useMantineTheme, useProps, useStyles
 } from '@mantine/core'
-import { IconTarget } from '@tabler/icons-react'
+import {
+    useDebouncedCallback, useId, useIsomorphicEffect, useUncontrolled
+} from '@mantine/hooks'
+import {
+    IconArrowDown, IconArrowUp, IconChevronRight, IconSelector, IconTarget
+} from '@tabler/icons-react'
 import classes from './GanttChart.module.css'
-import { PERIOD_CONFIGS, PeriodScale } from './GanttChartPeriodConfig'
+import {
+    DEFAULT_COLUMNS, formatColumnValue, GanttChartColumn, GanttChartSort, getColumnValue,
+    getNextSort, getTaskComparator, isColumnSortable
+} from './GanttChartColumns'
+import { GanttChartCalendar, getCalendarMarkType, getHoliday } from './GanttChartCalendar'
+import { getCriticalPath } from './GanttChartCriticalPath'
+import { GanttChartDependency, getDependencyPath } from './GanttChartDependencies'
+import {
+    GanttChartPeriodConfigs, GanttChartScale, getPeriodConfigs, WeekLabel
+} from './GanttChartPeriodConfig'
+import {
+    createTimeScale, getDurationMs, getPeriods, getScrollLeft, getZoomLevel, TIMELINE_WIDTH,
+    TimelineAlign
+} from './GanttChartTimeScale'
+import { GanttChartRow, getAncestorIds, getParentIds, getTaskRows } from './GanttChartTree'
+import { useTableResize } from './use-table-resize'
+import { GanttChartDateRange, GanttChartTaskChange, useTaskDrag } from './use-task-drag'
+import { useTimelineZoom } from './use-timeline-zoom'
 
 export type GanttChartStylesNames =
   | 'root'
@@ -42,10 +68,34 @@ export type GanttChartStylesNames =
   | 'loadingIndicatorLeft'
   | 'loadingIndicatorRight'
   | 'scrollToTaskButton'
-  | 'taskName';
+  | 'taskName'
+  | 'taskResizeHandle'
+  | 'dependencies'
+  | 'dependencyLine'
+  | 'dependencyArrow'
+  | 'treeToggle'
+  | 'milestone'
+  | 'taskProgress'
+  | 'taskProgressHandle'
+  | 'baseline'
+  | 'baselineVariance'
+  | 'tableHeader'
+  | 'tableHeaderCell'
+  | 'tableSortButton'
+  | 'tableColumnCell'
+  | 'tableColumnValue'
+  | 'splitter';
+
+export type GanttChartVariant = 'filled' | 'light' | 'outline';
 
 export type GanttChartCssVariables = {
-  root: '--test-component-color';
+  root:
+    | '--gantt-progress-color'
+    | '--gantt-task-bg'
+    | '--gantt-task-color'
+    | '--gantt-task-bd'
+    | '--gantt-task-hover'
+    | '--gantt-milestone-color';
 };
 
 export interface GanttChartData {
@@ -53,6 +103,90 @@ export interface GanttChartData {
   name: string;
   start: Date;
   end: Date;
+
+  /** Completed part of the task in percent, from 0 to 100 */
+  progress?: number;
+
+  /** Kind of the item, tasks with equal `start` and `end` are rendered as milestones, `'task'` by default */
+  type?: 'task' | 'milestone';
+
+  /** Id of the parent task, parent tasks display a summary bar that spans all of their children */
+  parentId?: string;
+
+  /** Tasks this task depends on, rendered as arrows from the predecessor bars */
+  dependencies?: GanttChartDependency[];
+
+  /** Planned start of the task, displayed as a baseline bar under the task */
+  baselineStart?: Date;
+
+  /** Planned end of the task, `baselineStart` by default */
+  baselineEnd?: Date;
+
+  /** Color of the task bar, key of `theme.colors` or any valid CSS color, `color` prop of the chart by default */
+  color?: MantineColor;
+
+  /** Variant of the task bar, `variant` prop of the chart by default */
+  variant?: GanttChartVariant;
+}
+
+export interface GanttChartRenderState {
+  /** Row of the task with its nesting level and expanded state */
+  row: GanttChartRow;
+
+  /** Current scale of the timeline */
+  scale: GanttChartScale;
+
+  /** Determines whether the task is selected */
+  selected: boolean;
+
+  /** Determines whether the task row is hovered in the table or the timeline */
+  hovered: boolean;
+
+  /** Determines whether the task is being moved, resized or its progress is changed */
+  dragging: boolean;
+}
+
+export interface GanttChartTaskRenderState extends GanttChartRenderState {
+  /** Position of the task bar on the timeline canvas in px */
+  left: number;
+
+  /** Width of the task bar in px, `0` for milestones */
+  width: number;
+
+  /** Determines whether the task is rendered as a milestone */
+  milestone: boolean;
+}
+
+export interface GanttChartTableCellRenderState extends GanttChartRenderState {
+  /** Column of the rendered cell */
+  column: GanttChartColumn;
+}
+
+export interface GanttChartScrollOptions {
+  /** Position of the date in the viewport, `'center'` by default */
+  align?: 'start' | 'center' | 'end';
+}
+
+export interface GanttChartVisibleRange extends GanttChartDateRange {
+  /** Scale of the timeline */
+  scale: GanttChartScale;
+}
+
+export interface GanttChartHandle {
+  /** Scrolls the timeline to the date */
+  scrollToDate: (date: Date, options?: GanttChartScrollOptions) => void;
+
+  /** Scrolls the timeline and the task rows to the task with the given id, collapsed ancestors of the task are expanded */
+  scrollToTask: (id: string) => void;
+
+  /** Changes the scale, `onScaleChange` is called */
+  setScale: (scale: GanttChartScale) => void;
+
+  /** Switches to the most detailed scale that fits all tasks into the viewport and centers them */
+  fitToData: () => void;
+
+  /** Returns the date range displayed in the timeline viewport */
+  getVisibleRange: () => GanttChartDateRange;
 }
 
 export interface GanttChartProps
@@ -66,9 +200,121 @@ export interface GanttChartProps
 
   showTable?: boolean;
 
-  scale?: 'day' | 'week' | 'month' | 'quarter' | 'year';
+  /** Controlled width of the task table in px */
+  tableWidth?: number;
+
+  /** Uncontrolled width of the task table in px, the table fits its content by default */
+  defaultTableWidth?: number;
+
+  /** Called when the table is resized with the splitter */
+  onTableWidthChange?: (width: number) => void;
+
+  /** Minimum width of the task table in px, `160` by default */
+  minTableWidth?: number;
+
+  /** Maximum width of the task table in px, `600` by default */
+  maxTableWidth?: number;
+
+  /** Columns of the task table, a single name column without header by default */
+  columns?: GanttChartColumn[];
+
+  /** Controlled sorting of the task table rows, `null` keeps the order of `data` */
+  sort?: GanttChartSort | null;
+
+  /** Uncontrolled sorting initial value */
+  defaultSort?: GanttChartSort | null;
+
+  /** Called when a sortable column header is clicked */
+  onSortChange?: (sort: GanttChartSort | null) => void;
+
+  /** Controlled scale of the timeline */
+  scale?: GanttChartScale;
 
-  /** Controls `background-color` of the root element, key of `theme.colors` or any valid CSS color, `theme.primaryColor` by default */
+  /** Uncontrolled scale initial value, `'day'` by default */
+  defaultScale?: GanttChartScale;
+
+  /** Called when the scale changes */
+  onScaleChange?: (scale: GanttChartScale) => void;
+
+  /** Scales available in the scale select, in display order, all scales by default */
+  scales?: GanttChartScale[];
+
+  /** Period configs merged over the built-in scales by key, new keys add custom scales */
+  periodConfigs?: GanttChartPeriodConfigs;
+
+  /** date-fns locale used to format dates, also sets the first day of week periods, `enUS` by default */
+  locale?: Locale;
+
+  /** First day of the week of week periods from 0 (Sunday) to 6 (Saturday), taken from `locale` by default */
+  weekStartsOn?: Day;
+
+  /** Label of week periods: day of month of the week start, week number of the locale or ISO week number, `'day'` by default */
+  weekLabel?: WeekLabel;
+
+  /** IANA time zone of periods and date labels, for example `'Europe/Berlin'`, local time zone by default */
+  timeZone?: string;
+
+  /** Working days, holidays and working hours, non-working time is shaded on day and smaller scales */
+  calendar?: GanttChartCalendar;
+
+  /** Highlights tasks and dependencies of the critical path, `false` by default */
+  showCriticalPath?: boolean;
+
+  /** Called when a task is moved, resized or its progress is changed, dragging is disabled when not set */
+  onTaskChange?: (task: GanttChartData, change: GanttChartTaskChange) => void;
+
+  /** Controlled ids of expanded parent tasks */
+  expandedIds?: string[];
+
+  /** Uncontrolled ids of initially expanded parent tasks, all parent tasks and parents added to `data` later are expanded by default */
+  defaultExpandedIds?: string[];
+
+  /** Called when a parent task is expanded or collapsed */
+  onExpandedChange?: (expandedIds: string[]) => void;
+
+  /** Controlled id of the selected task */
+  selectedTaskId?: string | null;
+
+  /** Uncontrolled id of the initially selected task */
+  defaultSelectedTaskId?: string | null;
+
+  /** Called when a task is selected by clicking its bar or table row */
+  onSelectedTaskChange?: (taskId: string | null) => void;
+
+  /** Called when a task is opened with Enter or double click */
+  onTaskOpen?: (task: GanttChartData) => void;
+
+  /** Custom content of task bars and milestones, replaces the label and the progress fill */
+  renderTask?: (task: GanttChartData, state: GanttChartTaskRenderState) => React.ReactNode;
+
+  /** Custom label of task bars and milestones, task name by default */
+  renderTaskLabel?: (task: GanttChartData, state: GanttChartTaskRenderState) => React.ReactNode;
+
+  /** Custom content of task table cells, `render` of the column takes precedence */
+  renderTableCell?: (
+    task: GanttChartData,
+    state: GanttChartTableCellRenderState
+  ) => React.ReactNode;
+
+  /** Ref that receives navigation methods of the chart */
+  chartRef?: React.Ref<GanttChartHandle>;
+
+  /** Called with the date range of the timeline viewport when it changes, calls are debounced */
+  onVisibleRangeChange?: (range: GanttChartVisibleRange) => void;
+
+  /** Displays loading indicator at the left edge of the timeline, `false` by default */
+  loadingLeft?: boolean;
+
+  /** Displays loading indicator at the right edge of the timeline, `false` by default */
+  loadingRight?: boolean;
+
+  /** Determines whether dragged tasks snap to the period boundaries of the current scale, `true` by default */
+  snapToPeriod?: boolean;
+
+  /** Controls fill color of the task progress, key of `theme.colors` or any valid CSS color, `theme.primaryColor` light variant by default */
+  progressColor?: MantineColor;
+
+  /** Default color of task bars, key of `theme.colors` or any valid CSS color, neutral bars are displayed when neither `color` nor `variant` is set */
   color?: MantineColor;
 }
 
@@ -77,31 +323,73 @@ export type GanttChartFactory = Factory<{
   ref: HTMLDivElement;
   stylesNames: GanttChartStylesNames;
   vars: GanttChartCssVariables;
+  variant: GanttChartVariant;
 }>;
 
 const defaultProps: Partial<GanttChartProps> = {
   label: 'Test component',
   data: [],
   showTable: true,
-  scale: 'day',
+  minTableWidth: 160,
+  maxTableWidth: 600,
+  defaultScale: 'day',
+  snapToPeriod: true,
 };
 
-const varsResolver = createVarsResolver<GanttChartFactory>((theme, { color }) => ({
-  root: {
-    '--test-component-color': getThemeColor(color, theme),
-  },
-}));
-
-const SCALE_OPTIONS = [
-  { value: 'hours', label: 'Hours' },
-  { value: 'day', label: 'Day' },
-  { value: 'week', label: 'Week' },
-  { value: 'bi-week', label: 'Bi-Week' },
-  { value: 'month', label: 'Month' },
-  { value: 'quarter', label: 'Quarter' },
-  { value: 'year', label: 'Year' },
-  { value: '5-years', label: '5 Years' },
-];
+// Task bar colors resolved with the variant colors resolver of the theme, like other Mantine components
+const getTaskColorVars = (
+  theme: MantineTheme,
+  color: MantineColor | undefined,
+  variant: GanttChartVariant | undefined
+) => {
+  const colors = theme.variantColorResolver({
+    color: color ?? theme.primaryColor,
+    theme,
+    variant: variant ?? 'filled',
+  });
+
+  return {
+    '--gantt-task-bg': colors.background,
+    '--gantt-task-color': colors.color,
+    '--gantt-task-bd': colors.border,
+    '--gantt-task-hover': colors.hover,
+    '--gantt-milestone-color': getThemeColor(color ?? theme.primaryColor, theme),
+  };
+};
+
+// Neutral task bars of the stylesheet are displayed when neither `color` nor `variant` is set
+const varsResolver = createVarsResolver<GanttChartFactory>(
+  (theme, { color, variant, progressColor }) => {
+    const taskColorVars =
+      color || variant ? getTaskColorVars(theme, color, variant as GanttChartVariant) : undefined;
+
+    return {
+      root: {
+        '--gantt-progress-color': progressColor ? getThemeColor(progressColor, theme) : undefined,
+        '--gantt-task-bg': taskColorVars?.['--gantt-task-bg'],
+        '--gantt-task-color': taskColorVars?.['--gantt-task-color'],
+        '--gantt-task-bd': taskColorVars?.['--gantt-task-bd'],
+        '--gantt-task-hover': taskColorVars?.['--gantt-task-hover'],
+        '--gantt-milestone-color': taskColorVars?.['--gantt-milestone-color'],
+      },
+    };
+  }
+);
+
+// Epoch of the time scale and the date that is aligned in the viewport after it changes
+interface TimelineAnchor {
+  scale: GanttChartScale;
+
+  /** Multiplier of the period width, changed by zooming with the wheel or pinch */
+  zoom: number;
+  epoch: number;
+  focus: { time: number; align: TimelineAlign };
+}
+
+// Milestones are zero-length items rendered as diamonds
+const isMilestone = (task: GanttChartData) =>
+  task.type === 'milestone' || task.start.getTime() === task.end.getTime();
+
 export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
   const props = useProps('GanttChart', defaultProps, _props);
   const {
@@ -114,27 +402,201 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
     label,
     data,
     showTable,
+    tableWidth: tableWidthProp,
+    defaultTableWidth,
+    onTableWidthChange,
+    minTableWidth,
+    maxTableWidth,
+    columns,
+    sort: sortProp,
+    defaultSort,
+    onSortChange,
+    scale: scaleProp,
+    defaultScale,
+    onScaleChange,
+    scales,
+    periodConfigs: periodConfigsProp,
+    locale,
+    weekStartsOn: weekStartsOnProp,
+    weekLabel,
+    timeZone,
+    calendar,
+    showCriticalPath,
+    onTaskChange,
+    snapToPeriod,
+    expandedIds: expandedIdsProp,
+    defaultExpandedIds,
+    onExpandedChange,
+    selectedTaskId: selectedTaskIdProp,
+    defaultSelectedTaskId,
+    onSelectedTaskChange,
+    onTaskOpen,
+    renderTask,
+    renderTaskLabel,
+    renderTableCell,
+    progressColor,
+    color,
+    variant,
+    chartRef,
+    onVisibleRangeChange,
+    loadingLeft,
+    loadingRight,
     ...others
   } = props;
 
   // Constants for chart configuration
-  const TOTAL_PERIODS = 200; // Fixed total number of periods to maintain
   const VISIBLE_BUFFER = 50; // Extra items to render on each side of visible area
-  const SCROLL_THRESHOLD = 0.1; // When to shift the window (10% from edge)
-  const PERIODS_TO_SHIFT = 100; // Number of periods to shift when reaching threshold
+  const EDGE_THRESHOLD = TIMELINE_WIDTH * 0.1; // When to move the epoch (10% from edge)
+  const ROW_HEIGHT = 2.5 * 16; // Height of a task row in px, matches `.taskLine` height
+  const DATES_HEIGHT = 4 * 16; // Height of the dates header in px, matches `.dates` height
+  const ROW_OVERSCAN = 10; // Extra rows to render above and below the visible area
+  const VISIBLE_RANGE_DELAY = 200; // Debounce delay of `onVisibleRangeChange` in ms
+  const KEYBOARD_ZOOM_STEP = 1.25; // Zoom factor of a single `+` or `-` key press
+
+  const [scale, setScale] = useUncontrolled<GanttChartScale>({
+    value: scaleProp,
+    defaultValue: defaultScale,
+    finalValue: 'day',
+    onChange: onScaleChange,
+  });
 
-  const [scale, setInternalScale] = useState<PeriodScale>('day');
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [visibleRange, setVisibleRange] = useState({ startIndex: 0, endIndex: 50 });
-  const scrollTimeout = useRef<NodeJS.Timeout | null>(null);
-  const lastScrollLeft = useRef(0);
-  const isInitialRender = useRef(true);
+  // Without `defaultExpandedIds` uncontrolled mode tracks collapsed parents, so that parents of
+  // data loaded later are expanded, otherwise it tracks expanded parents and new parents are collapsed
+  const [expandsNewParents] = useState(defaultExpandedIds === undefined);
+  const [uncontrolledIds, setUncontrolledIds] = useState<string[]>(defaultExpandedIds ?? []);
+  const parentIds = useMemo(() => getParentIds(data), [data]);
+  const expandedIds = useMemo(
+    () =>
+      expandedIdsProp ??
+      (expandsNewParents
+        ? parentIds.filter((id) => !uncontrolledIds.includes(id))
+        : uncontrolledIds),
+    [expandedIdsProp, expandsNewParents, parentIds, uncontrolledIds]
+  );
+
+  const setExpandedIds = (ids: string[]) => {
+    if (expandedIdsProp === undefined) {
+      setUncontrolledIds(expandsNewParents ? parentIds.filter((id) => !ids.includes(id)) : ids);
+    }
 
-  // Fixed-size array of periods
-  const [allPeriods, setAllPeriods] = useState<Date[]>([]);
+    onExpandedChange?.(ids);
+  };
+
+  const [selectedTaskId, setSelectedTaskId] = useUncontrolled<string | null>({
+    value: selectedTaskIdProp,
+    defaultValue: defaultSelectedTaskId,
+    finalValue: null,
+    onChange: onSelectedTaskChange,
+  });
+
+  // Task row under the pointer, shared by the table and the timeline
+  const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
+
+  // Task bar of the roving focus, `focusRequestRef` focuses it once its row is rendered
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const focusRequestRef = useRef(false);
+
+  // Id of the task `chartRef.scrollToTask` scrolls to once its row is rendered
+  const scrollRequestRef = useRef<string | null>(null);
+
+  const tableRef = useRef<HTMLDivElement>(null);
+  const [tableWidth, setTableWidth] = useUncontrolled<number | undefined>({
+    value: tableWidthProp,
+    defaultValue: defaultTableWidth,
+    finalValue: undefined,
+    onChange: onTableWidthChange,
+  });
+
+  const { value: splitterValue, handlers: splitterHandlers } = useTableResize({
+    tableRef,
+    width: tableWidth,
+    enabled: showTable!,
+    minWidth: minTableWidth!,
+    maxWidth: maxTableWidth!,
+    onChange: setTableWidth,
+  });
+
+  const [sort, setSort] = useUncontrolled<GanttChartSort | null>({
+    value: sortProp,
+    defaultValue: defaultSort,
+    finalValue: null,
+    onChange: onSortChange,
+  });
 
-  // Track absolute position in infinite timeline for date calculations
-  const virtualOffsetRef = useRef(0);
+  const tableColumns = columns ?? DEFAULT_COLUMNS;
+  const compareTasks = useMemo(() => getTaskComparator(tableColumns, sort), [tableColumns, sort]);
+
+  // Tasks in display order, children of collapsed tasks are excluded
+  const rows = useMemo(
+    () => getTaskRows(data, expandedIds, compareTasks),
+    [data, expandedIds, compareTasks]
+  );
+
+  const [verticalViewport, setVerticalViewport] = useState(() => ({
+    scrollTop: 0,
+    height: typeof window !== 'undefined' ? window.innerHeight : 0,
+  }));
+
+  // Rows in the vertical viewport with overscan, rendered in both the table and the timeline
+  const rowRange = useMemo(() => {
+    const offset = verticalViewport.scrollTop - DATES_HEIGHT;
+    return {
+      start: Math.max(0, Math.floor(offset / ROW_HEIGHT) - ROW_OVERSCAN),
+      end: Math.min(
+        rows.length,
+        Math.ceil((offset + verticalViewport.height) / ROW_HEIGHT) + ROW_OVERSCAN
+      ),
+    };
+  }, [rows.length, verticalViewport, ROW_HEIGHT, DATES_HEIGHT, ROW_OVERSCAN]);
+
+  const renderedRows = rows.slice(rowRange.start, rowRange.end);
+
+  // Spacing that keeps rendered rows at their position in the full list
+  const rowsContainerStyle = {
+    paddingTop: rowRange.start * ROW_HEIGHT,
+    minHeight: rows.length * ROW_HEIGHT,
+  };
+
+  const toggleExpanded = (id: string) =>
+    setExpandedIds(
+      expandedIds.includes(id)
+        ? expandedIds.filter((expandedId) => expandedId !== id)
+        : [...expandedIds, id]
+    );
+
+  // Columns with width keep it, other columns share the remaining space
+  const getColumnStyle = (column: GanttChartColumn) =>
+    column.width !== undefined ? { width: column.width, flex: 'none' } : undefined;
+
+  // Built-in period configs with overrides and custom scales
+  // ISO weeks start on Monday
+  const weekStartsOn =
+    weekStartsOnProp ?? (weekLabel === 'iso-week' ? 1 : locale?.options?.weekStartsOn) ?? 0;
+
+  const periodConfigs = useMemo(
+    () => getPeriodConfigs(periodConfigsProp, { weekStartsOn, weekLabel }),
+    [periodConfigsProp, weekStartsOn, weekLabel]
+  );
+
+  // Dates in the chart time zone, period configs align and format them in that zone
+  const toZone = useCallback(
+    (date: Date | number) => (timeZone ? new TZDate(+date, timeZone) : new Date(date)),
+    [timeZone]
+  );
+
+  // Format dates with the chart locale and time zone
+  const formatDate = (date: Date, formatString: string) =>
+    format(toZone(date), formatString, { locale, weekStartsOn });
+
+  // Options of the scale select, limited and ordered by the `scales` prop
+  const scaleOptions = useMemo(
+    () =>
+      (scales ?? Object.keys(periodConfigs))
+        .filter((value) => periodConfigs[value])
+        .map((value) => ({ value, label: periodConfigs[value].label ?? value })),
+    [scales, periodConfigs]
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
 
   // Reference point - the "center" date for our infinite timeline
   const [centerDate] = useState(() => {
@@ -154,7 +616,79 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
   });
 
   // Get current period config
-  const periodConfig = PERIOD_CONFIGS[scale];
+  const periodConfig = periodConfigs[scale] ?? periodConfigs.day;
+
+  // Horizontal scroll position and width of the timeline viewport
+  const [viewport, setViewport] = useState(() => {
+    const width = typeof window !== 'undefined' ? window.innerWidth : 0;
+    return { scrollLeft: TIMELINE_WIDTH / 2 - width / 2, width };
+  });
+
+  // Time scale anchored at the epoch, the scroll position is aligned to the focus date
+  // Anchor of the last zoom step until it is applied to the scroll position
+  const zoomAnchorRef = useRef<TimelineAnchor | null>(null);
+
+  const [anchor, setAnchor] = useState<TimelineAnchor>(() => ({
+    scale,
+    zoom: 1,
+    epoch: periodConfig.alignDate(toZone(centerDate)).getTime(),
+    focus: { time: centerDate.getTime(), align: 'center' },
+  }));
+
+  // Keep the focal date in the same spot of the viewport when scale changes, the focal date is
+  // the start of the selected task when it is visible or the date in the viewport center
+  if (anchor.scale !== scale) {
+    const previousTimeScale = createTimeScale(
+      anchor.epoch,
+      periodConfigs[anchor.scale] ?? periodConfig,
+      anchor.zoom
+    );
+    const selectedTask = rows.find((row) => row.task.id === selectedTaskId)?.task;
+    const selectedOffset = selectedTask
+      ? previousTimeScale.timeToX(selectedTask.start) - viewport.scrollLeft
+      : -1;
+    const offset =
+      selectedOffset >= 0 && selectedOffset <= viewport.width ? selectedOffset : viewport.width / 2;
+    const focus = previousTimeScale.xToTime(viewport.scrollLeft + offset);
+
+    setAnchor({
+      scale,
+      zoom: 1,
+      epoch: periodConfig.alignDate(toZone(focus)).getTime(),
+      focus: { time: focus.getTime(), align: offset },
+    });
+  }
+
+  const timeScale = useMemo(
+    () => createTimeScale(anchor.epoch, periodConfig, anchor.zoom),
+    [anchor.epoch, anchor.zoom, periodConfig]
+  );
+
+  // Duration of a single period, months and years use their average length
+  const periodWidthMs = useMemo(() => getDurationMs(periodConfig.increment), [periodConfig]);
+
+  // Snap dragged dates to the nearest period boundary
+  const snapDate = useMemo(
+    () =>
+      snapToPeriod
+        ? (date: Date) =>
+            new Date(periodConfig.alignDate(toZone(date.getTime() + periodWidthMs / 2)).getTime())
+        : undefined,
+    [snapToPeriod, periodConfig, periodWidthMs, toZone]
+  );
+
+  const { preview, getDragHandlers, getResizeKeyDownHandler, getProgressKeyDownHandler, moveTask } =
+    useTaskDrag({
+      msPerPixel: 1 / timeScale.pxPerMs,
+      increment: periodConfig.increment,
+      snapDate,
+      toZone,
+      onTaskChange,
+    });
+
+  const id = useId();
+  const arrowMarkerId = `${id}-dependency-arrow`;
+  const theme = useMantineTheme();
 
   const getStyles = useStyles<GanttChartFactory>({
     name: 'GanttChart',
@@ -169,691 +703,797 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
     varsResolver,
   });
 
-  // Initialize the fixed-size window of periods when scale changes
+  // Track the height of the scroll area to know how many rows fit in
   useEffect(() => {
-    // Align center date according to scale first
-    const alignedCenterDate = periodConfig.alignDate(centerDate);
-
-    // Generate fixed number of periods centered around the alignedCenterDate
-    const periods: Date[] = [];
-
-    // Calculate half to put before and after center
-    const halfCount = Math.floor(TOTAL_PERIODS / 2);
-
-    // Generate periods before the center date
-    let tempDate = new Date(alignedCenterDate);
-    for (let i = 0; i < halfCount; i++) {
-      // Go backwards by subtracting the increment
-      tempDate = add(tempDate, {
-        ...periodConfig.increment,
-        ...{
-          [Object.keys(periodConfig.increment)[0]]: -Object.values(periodConfig.increment)[0],
-        },
-      });
-      // Add to the beginning
-      periods.unshift(new Date(tempDate));
+    const container = containerRef.current;
+    if (!container) {
+      return undefined;
     }
 
-    // Add the center date
-    periods.push(new Date(alignedCenterDate));
-
-    // Generate periods after the center date
-    tempDate = new Date(alignedCenterDate);
-    for (let i = 0; i < halfCount - 1; i++) {
-      tempDate = add(tempDate, periodConfig.increment);
-      periods.push(new Date(tempDate));
-    }
-
-    setAllPeriods(periods);
-    virtualOffsetRef.current = 0;
+    const observer = new ResizeObserver(() =>
+      setVerticalViewport((current) =>
+        current.height === container.clientHeight
+          ? current
+          : { ...current, height: container.clientHeight }
+      )
+    );
 
-    // Reset visible range to the center
-    const centerIndex = Math.floor(periods.length / 2);
-    setVisibleRange({
-      startIndex: Math.max(0, centerIndex - 25),
-      endIndex: centerIndex + 25,
-    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
 
-    // If we have a container, scroll to the center
-    if (containerRef.current) {
-      // Wait for the next render cycle
-      setTimeout(() => {
-        if (containerRef.current) {
-          const periodWidthPx = periodConfig.width * 16; // convert rem to px
-          containerRef.current.scrollLeft =
-            centerIndex * periodWidthPx - containerRef.current.clientWidth / 2;
-        }
-      }, 0);
+  // Apply the anchor focus to the scroll position before the anchored timeline is painted,
+  // the time scale always changes together with the anchor
+  useIsomorphicEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
     }
 
-    isInitialRender.current = false;
-  }, [scale, centerDate, periodConfig, TOTAL_PERIODS]);
-
-  // Get period width based on scale
-  const getPeriodWidth = () => `${periodConfig.width}rem`;
-
-  // Get only the visible periods with buffer
-  const visiblePeriods = useMemo(() => {
-    const start = Math.max(0, visibleRange.startIndex - VISIBLE_BUFFER);
-    const end = Math.min(allPeriods.length, visibleRange.endIndex + VISIBLE_BUFFER);
-    return allPeriods.slice(start, end);
-  }, [allPeriods, visibleRange, VISIBLE_BUFFER]);
-
-  // Calculate the offset for the visible periods
-  const periodsOffset = useMemo(() => {
-    const start = Math.max(0, visibleRange.startIndex - VISIBLE_BUFFER);
-    return `${start * periodConfig.width}rem`;
-  }, [visibleRange, periodConfig.width, VISIBLE_BUFFER]);
-
-  // Shift window to the left (show earlier dates)
-  const shiftWindowLeft = useCallback(() => {
-    setAllPeriods((prevPeriods) => {
-      // Check if we have periods to work with
-      if (prevPeriods.length === 0) {
-        return prevPeriods;
-      }
-
-      // Create a copy of the current periods
-      const periodsArray = [...prevPeriods];
+    const { time, align } = anchor.focus;
+    const scrollLeft = getScrollLeft(timeScale, time, align, container.clientWidth);
+    container.scrollLeft = scrollLeft;
+    setViewport({ scrollLeft, width: container.clientWidth });
+    zoomAnchorRef.current = null;
+  }, [anchor]);
+
+  // Periods of the horizontal viewport with buffer, generated from the time scale
+  const periodCells = useMemo(() => {
+    const buffer = VISIBLE_BUFFER * timeScale.periodWidthPx;
+    const periods = getPeriods(
+      periodConfig,
+      toZone(timeScale.xToTime(viewport.scrollLeft - buffer)),
+      timeScale.xToTime(viewport.scrollLeft + viewport.width + buffer)
+    );
 
-      // Remove periods from the right end
-      periodsArray.splice(periodsArray.length - PERIODS_TO_SHIFT, PERIODS_TO_SHIFT);
+    // Calendar marks replace weekends of the period config on day and smaller scales
+    const useCalendar =
+      !!calendar && getDurationMs(periodConfig.increment) <= getDurationMs({ days: 1 });
 
-      // Generate new periods to add to the left
-      let tempDate = new Date(periodsArray[0]);
-      const newPeriods = [];
+    return periods.map((period) => {
+      const left = timeScale.timeToX(period);
+      const right = timeScale.timeToX(add(period, periodConfig.increment));
+      const markType = periodConfig.getMarkType(period);
 
-      // Create PERIODS_TO_SHIFT new periods
-      for (let i = 0; i < PERIODS_TO_SHIFT; i++) {
-        // Go backwards by subtracting the increment
-        tempDate = add(tempDate, {
-          ...periodConfig.increment,
-          ...{
-            [Object.keys(periodConfig.increment)[0]]: -Object.values(periodConfig.increment)[0],
-          },
-        });
-        // Add to the array of new periods
-        newPeriods.unshift(new Date(tempDate));
+      if (!useCalendar) {
+        return { period, left, width: right - left, markType };
       }
 
-      // Combine new periods with existing array
-      const result = [...newPeriods, ...periodsArray];
-
-      // Update the virtual offset to track our position in the infinite timeline
-      virtualOffsetRef.current -= PERIODS_TO_SHIFT;
-
-      return result;
+      return {
+        period,
+        left,
+        width: right - left,
+        markType: getCalendarMarkType(period, markType, calendar),
+        holidayName: getHoliday(period, calendar)?.name,
+      };
     });
+  }, [timeScale, periodConfig, viewport, toZone, calendar, VISIBLE_BUFFER]);
 
-    // We need to maintain the scroll position so it appears seamless
-    const oldScrollLeft = containerRef.current?.scrollLeft || 0;
-    const periodWidthPx = periodConfig.width * 16; // convert rem to px
-
-    // After the state update, adjust scroll position and visible range
-    setTimeout(() => {
-      if (containerRef.current) {
-        // Adjust scroll position to compensate for the added periods
-        containerRef.current.scrollLeft = oldScrollLeft + PERIODS_TO_SHIFT * periodWidthPx;
-
-        // Adjust visible range to account for the shifted window
-        setVisibleRange((prev) => ({
-          startIndex: prev.startIndex + PERIODS_TO_SHIFT,
-          endIndex: prev.endIndex + PERIODS_TO_SHIFT,
-        }));
-      }
-    }, 0);
-  }, [periodConfig]);
-
-  // Shift window to the right (show later dates)
-  const shiftWindowRight = useCallback(() => {
-    setAllPeriods((prevPeriods) => {
-      // Check if we have periods to work with
-      if (prevPeriods.length === 0) {
-        return prevPeriods;
-      }
-
-      // Create a copy of the current periods
-      const periodsArray = [...prevPeriods];
-
-      // Remove periods from the left end
-      periodsArray.splice(0, PERIODS_TO_SHIFT);
-
-      // Generate new periods to add to the right
-      let tempDate = new Date(periodsArray[periodsArray.length - 1]);
-      const newPeriods = [];
+  // Calculate the offset for the visible periods
+  const periodsOffset = periodCells.length > 0 ? periodCells[0].left : 0;
 
-      // Create PERIODS_TO_SHIFT new periods
-      for (let i = 0; i < PERIODS_TO_SHIFT; i++) {
-        // Go forward by adding the increment
-        tempDate = add(tempDate, periodConfig.increment);
-        // Add to the array of new periods
-        newPeriods.push(new Date(tempDate));
+  // Scroll the timeline to the date, the epoch moves to the date when it is far from the canvas center
+  const scrollToTime = useCallback(
+    (date: Date, align: TimelineAlign) => {
+      const container = containerRef.current;
+      if (!container) {
+        return;
       }
 
-      // Combine existing array with new periods
-      const result = [...periodsArray, ...newPeriods];
-
-      // Update the virtual offset to track our position in the infinite timeline
-      virtualOffsetRef.current += PERIODS_TO_SHIFT;
-
-      return result;
-    });
-
-    // We need to maintain the scroll position so it appears seamless
-    const oldScrollLeft = containerRef.current?.scrollLeft || 0;
-    const periodWidthPx = periodConfig.width * 16; // convert rem to px
-
-    // After the state update, adjust scroll position and visible range
-    setTimeout(() => {
-      if (containerRef.current) {
-        // Adjust scroll position to compensate for the removed periods
-        containerRef.current.scrollLeft = oldScrollLeft - PERIODS_TO_SHIFT * periodWidthPx;
-
-        // Adjust visible range to account for the shifted window
-        setVisibleRange((prev) => ({
-          startIndex: prev.startIndex - PERIODS_TO_SHIFT,
-          endIndex: prev.endIndex - PERIODS_TO_SHIFT,
-        }));
+      const scrollLeft = getScrollLeft(timeScale, date, align, container.clientWidth);
+      if (
+        scrollLeft >= EDGE_THRESHOLD &&
+        scrollLeft + container.clientWidth <= TIMELINE_WIDTH - EDGE_THRESHOLD
+      ) {
+        container.scrollLeft = scrollLeft;
+        return;
       }
-    }, 0);
-  }, [periodConfig]);
+
+      setAnchor({
+        scale,
+        zoom: anchor.zoom,
+        epoch: periodConfig.alignDate(toZone(date)).getTime(),
+        focus: { time: date.getTime(), align },
+      });
+    },
+    [timeScale, periodConfig, scale, anchor.zoom, EDGE_THRESHOLD, toZone]
+  );
 
   // Update visible range on scroll
   const handleScroll = useCallback(() => {
-    if (!containerRef.current || isInitialRender.current) {
+    if (!containerRef.current) {
       return;
     }
 
-    // Reset scroll timeout
-    if (scrollTimeout.current) {
-      clearTimeout(scrollTimeout.current);
+    // Keep the table rows aligned with the timeline rows
+    const { scrollTop, scrollLeft, clientHeight, clientWidth } = containerRef.current;
+    if (tableRef.current) {
+      tableRef.current.scrollTop = scrollTop;
     }
 
-    const scrollLeft = containerRef.current.scrollLeft;
-    const containerWidth = containerRef.current.clientWidth;
-    const periodWidthPx = periodConfig.width * 16; // convert rem to px
-    const totalWidthPx = allPeriods.length * periodWidthPx;
-
-    // Update last scroll position
-    lastScrollLeft.current = scrollLeft;
-
-    // Calculate scroll thresholds
-    const leftThreshold = totalWidthPx * SCROLL_THRESHOLD;
-    const rightThreshold = totalWidthPx * (1 - SCROLL_THRESHOLD);
+    setVerticalViewport((current) =>
+      current.scrollTop === scrollTop && current.height === clientHeight
+        ? current
+        : { scrollTop, height: clientHeight }
+    );
 
-    // Check if we need to shift the window
-    if (scrollLeft < leftThreshold) {
-      shiftWindowLeft();
-      return;
-    } else if (scrollLeft > rightThreshold - containerWidth) {
-      shiftWindowRight();
+    // Move the epoch to the viewport center before the scroll position reaches the canvas edge,
+    // the scroll position is restored before the next paint, so the content does not move
+    if (scrollLeft < EDGE_THRESHOLD || scrollLeft + clientWidth > TIMELINE_WIDTH - EDGE_THRESHOLD) {
+      const focus = timeScale.xToTime(scrollLeft + clientWidth / 2);
+      setAnchor({
+        scale,
+        zoom: anchor.zoom,
+        epoch: periodConfig.alignDate(toZone(focus)).getTime(),
+        focus: { time: focus.getTime(), align: 'center' },
+      });
       return;
     }
 
-    // Update visible range based on scroll position
-    const startIndex = Math.floor(scrollLeft / periodWidthPx);
-    const visiblePeriods = Math.ceil(containerWidth / periodWidthPx);
-
-    setVisibleRange({
-      startIndex,
-      endIndex: startIndex + visiblePeriods,
-    });
-  }, [periodConfig.width, allPeriods.length, shiftWindowLeft, shiftWindowRight, SCROLL_THRESHOLD]);
+    setViewport((current) =>
+      current.scrollLeft === scrollLeft && current.width === clientWidth
+        ? current
+        : { scrollLeft, width: clientWidth }
+    );
+  }, [timeScale, periodConfig, scale, anchor.zoom, EDGE_THRESHOLD, toZone]);
 
-  // Scroll to today
-  const scrollToToday = useCallback(() => {
-    if (!containerRef.current) {
+  // Zoom the timeline keeping the date at `offset` px from the viewport left edge in place,
+  // the scale changes when periods become too narrow or too wide
+  const zoomAt = (factor: number, offset: number) => {
+    const container = containerRef.current;
+    if (!container) {
       return;
     }
 
-    const today = new Date();
+    // Events that arrive before the previous zoom step is rendered continue from its anchor
+    const base = zoomAnchorRef.current ?? anchor;
+    const baseTimeScale = zoomAnchorRef.current
+      ? createTimeScale(base.epoch, periodConfigs[base.scale], base.zoom)
+      : timeScale;
+    const baseScrollLeft = zoomAnchorRef.current
+      ? getScrollLeft(baseTimeScale, base.focus.time, base.focus.align, container.clientWidth)
+      : container.scrollLeft;
+
+    const time = baseTimeScale.xToTime(baseScrollLeft + offset);
+    const level = getZoomLevel(
+      scaleOptions.map(({ value }) => ({ scale: value, config: periodConfigs[value] })),
+      base.scale,
+      baseTimeScale.pxPerMs * factor
+    );
+    if (level.scale === base.scale && level.zoom === base.zoom) {
+      return;
+    }
 
-    // Define variables for edge detection
-    const edgeThreshold = Math.floor(TOTAL_PERIODS * 0.25);
+    const nextAnchor = {
+      scale: level.scale,
+      zoom: level.zoom,
+      epoch: periodConfigs[level.scale].alignDate(toZone(time)).getTime(),
+      focus: { time: time.getTime(), align: offset },
+    };
+    zoomAnchorRef.current = nextAnchor;
+    setAnchor(nextAnchor);
+    if (level.scale !== base.scale) {
+      setScale(level.scale);
+    }
+  };
 
-    // Align today according to scale
-    const alignedToday = periodConfig.alignDate(today);
+  useTimelineZoom({ containerRef, onZoom: zoomAt });
 
-    // Try to find exact match
-    let todayIndex = allPeriods.findIndex((period) =>
-      periodConfig.isPeriodExactMatch(period, alignedToday)
-    );
+  // Scroll to today
+  const scrollToToday = useCallback(() => scrollToTime(new Date(), 'center'), [scrollToTime]);
 
-    // If not found with exact match, try to find the closest period on the same day
-    if (todayIndex === -1) {
-      // Find periods that are on the same day for current scale
-      const relevantPeriods = allPeriods.filter((period) =>
-        periodConfig.isPeriodOnSameDay(period, today)
-      );
+  // Format period label using the config
+  const formatPeriodLabel = (date: Date) => {
+    return formatDate(date, periodConfig.labelFormat);
+  };
 
-      if (relevantPeriods.length > 0) {
-        // Get the closest period based on time difference
-        let closestPeriod = relevantPeriods[0];
-        let minDiff = Math.abs(closestPeriod.getTime() - today.getTime());
+  // Calculate task position in px on the timeline canvas
+  const getTaskPosition = (task: GanttChartDateRange) => ({
+    start: timeScale.timeToX(task.start),
+    end: timeScale.timeToX(task.end),
+  });
 
-        relevantPeriods.forEach((period) => {
-          const diff = Math.abs(period.getTime() - today.getTime());
-          if (diff < minDiff) {
-            minDiff = diff;
-            closestPeriod = period;
-          }
-        });
+  // Apply the drag preview to the task being dragged
+  const getDisplayedTask = (task: GanttChartData) =>
+    preview?.taskId === task.id
+      ? {
+          ...task,
+          start: preview.start,
+          end: preview.end,
+          progress: preview.progress ?? task.progress,
+        }
+      : task;
 
-        todayIndex = allPeriods.indexOf(closestPeriod);
-      }
-    }
+  const criticalPath = useMemo(
+    () => (showCriticalPath ? getCriticalPath(data) : null),
+    [showCriticalPath, data]
+  );
 
-    // Determine if we need to regenerate periods
-    let needsRegeneration = todayIndex === -1;
+  const criticalLinkKeys = useMemo(
+    () => new Set(criticalPath?.links.map((link) => `${link.from}-${link.to}`)),
+    [criticalPath]
+  );
 
-    if (!needsRegeneration) {
-      // Check if today is near the edge
-      const isNearEdge = todayIndex < edgeThreshold || todayIndex > TOTAL_PERIODS - edgeThreshold;
+  const isCriticalTask = (task: GanttChartData) => !!criticalPath?.tasks[task.id]?.critical;
 
-      if (isNearEdge) {
-        // Find periods that are on the same day
-        const relevantPeriods = allPeriods.filter((period) =>
-          periodConfig.isPeriodOnSameDay(period, today)
-        );
+  // Build arrow paths for all dependencies between rendered tasks
+  const dependencyPaths = (() => {
+    const rowsById = new Map(rows.map((row, index) => [row.task.id, { task: row.task, index }]));
 
-        // If we're near the edge, check if there are other periods on the same day
-        // that would make regeneration unnecessary
-        const hasEarlierPeriodsOnSameDay =
-          todayIndex > 0 && relevantPeriods.some((p) => allPeriods.indexOf(p) < todayIndex);
-        const hasLaterPeriodsOnSameDay =
-          todayIndex < allPeriods.length - 1 &&
-          relevantPeriods.some((p) => allPeriods.indexOf(p) > todayIndex);
-
-        // If we're near the left edge but have earlier periods on the same day,
-        // or we're near the right edge but have later periods on the same day,
-        // then we don't actually need to regenerate
-        if (
-          (todayIndex < edgeThreshold && hasEarlierPeriodsOnSameDay) ||
-          (todayIndex > TOTAL_PERIODS - edgeThreshold && hasLaterPeriodsOnSameDay)
-        ) {
-          needsRegeneration = false;
-        } else {
-          needsRegeneration = true;
-        }
+    const getGeometry = (id: string) => {
+      const row = rowsById.get(id);
+      if (!row) {
+        return null;
       }
-    }
 
-    if (needsRegeneration) {
-      // Generate new periods centered around today
-      const newPeriods: Date[] = [];
-      const halfCount = Math.floor(TOTAL_PERIODS / 2);
-
-      // Use the aligned date from earlier
-      const centerDate = alignedToday;
-
-      // Generate periods before today
-      let tempDate = new Date(centerDate);
-      for (let i = 0; i < halfCount; i++) {
-        tempDate = add(tempDate, {
-          ...periodConfig.increment,
-          ...{
-            [Object.keys(periodConfig.increment)[0]]: -Object.values(periodConfig.increment)[0],
-          },
-        });
-        newPeriods.unshift(new Date(tempDate));
+      const position = getTaskPosition(getDisplayedTask(row.task));
+      return {
+        left: position.start,
+        right: position.end,
+        y: row.index * ROW_HEIGHT + ROW_HEIGHT / 2,
+      };
+    };
+
+    // Skip links that do not cross the rendered rows
+    const isRendered = (fromId: string, toId: string) => {
+      const fromIndex = rowsById.get(fromId)?.index;
+      const toIndex = rowsById.get(toId)?.index;
+      if (fromIndex === undefined || toIndex === undefined) {
+        return false;
       }
 
-      // Add today and future periods
-      newPeriods.push(new Date(centerDate));
-      tempDate = new Date(centerDate);
+      return (
+        Math.min(fromIndex, toIndex) < rowRange.end &&
+        Math.max(fromIndex, toIndex) >= rowRange.start
+      );
+    };
 
-      for (let i = 0; i < halfCount - 1; i++) {
-        tempDate = add(tempDate, periodConfig.increment);
-        newPeriods.push(new Date(tempDate));
-      }
+    return rows.flatMap(({ task }) =>
+      (task.dependencies ?? []).flatMap((dependency) => {
+        if (!isRendered(dependency.id, task.id)) {
+          return [];
+        }
 
-      // Reset virtual offset and update state
-      virtualOffsetRef.current = 0;
-      setAllPeriods(newPeriods);
+        const from = getGeometry(dependency.id);
+        const to = getGeometry(task.id);
+        if (!from || !to) {
+          return [];
+        }
 
-      // Update today index and visible range
-      todayIndex = halfCount;
+        return [
+          {
+            key: `${dependency.id}-${task.id}`,
+            from: dependency.id,
+            to: task.id,
+            type: dependency.type ?? 'finish-to-start',
+            critical: criticalLinkKeys.has(`${dependency.id}-${task.id}`),
+            path: getDependencyPath(from, to, dependency.type, ROW_HEIGHT),
+          },
+        ];
+      })
+    );
+  })();
 
-      const visibleCount = Math.ceil(containerRef.current.clientWidth / (periodConfig.width * 16));
-      const startIndex = Math.max(0, todayIndex - Math.floor(visibleCount / 2));
-      const endIndex = todayIndex + Math.ceil(visibleCount / 2);
+  // Calculate task position and width
+  const getTaskStyle = (task: GanttChartDateRange) => {
+    const position = getTaskPosition(task);
 
-      setVisibleRange({
-        startIndex,
-        endIndex,
-      });
+    return {
+      left: position.start,
+      width: Math.max(0, position.end - position.start),
+    };
+  };
 
-      // Use setTimeout instead of requestAnimationFrame to avoid potential timing issues
-      setTimeout(() => {
-        if (containerRef.current) {
-          // Calculate the exact position of today's line
-          // Find the proportion of the day passed
-          let exactPosition;
-
-          // Find the closest period after today
-          const nextPeriodIndex = todayIndex + 1;
-          if (nextPeriodIndex < newPeriods.length) {
-            const beforeTime = newPeriods[todayIndex].getTime();
-            const afterTime = newPeriods[nextPeriodIndex].getTime();
-            const totalTimeDiff = afterTime - beforeTime;
-            const currentTimeDiff = today.getTime() - beforeTime;
-
-            // Calculate proportion of the way between periods (0 to 1)
-            const proportion = totalTimeDiff > 0 ? currentTimeDiff / totalTimeDiff : 0;
-
-            // Calculate the exact position
-            exactPosition = (todayIndex + proportion) * periodConfig.width * 16; // convert to pixels
-          } else {
-            exactPosition = todayIndex * periodConfig.width * 16;
-          }
+  // Calculate milestone position
+  const getMilestoneStyle = (task: GanttChartDateRange) => ({
+    left: getTaskPosition(task).start,
+  });
 
-          const targetPosition = Math.max(0, exactPosition - containerRef.current.clientWidth / 2);
+  // Number of days the task finishes after its baseline end, negative when it finishes earlier
+  const getBaselineVariance = (task: GanttChartData) =>
+    task.baselineStart
+      ? differenceInCalendarDays(toZone(task.end), toZone(task.baselineEnd ?? task.baselineStart))
+      : 0;
 
-          containerRef.current.scrollLeft = targetPosition;
-        }
-      }, 0);
-    } else {
-      // Today is already in view, just scroll to it
-      // But center on the exact today position, not just the period
-
-      // Find the proportion of the current period
-      let exactPosition;
-
-      // Find the closest period after today
-      const nextPeriodIndex = todayIndex + 1;
-      if (nextPeriodIndex < allPeriods.length) {
-        const beforeTime = allPeriods[todayIndex].getTime();
-        const afterTime = allPeriods[nextPeriodIndex].getTime();
-        const totalTimeDiff = afterTime - beforeTime;
-        const currentTimeDiff = today.getTime() - beforeTime;
-
-        // Calculate proportion of the way between periods (0 to 1)
-        const proportion = totalTimeDiff > 0 ? currentTimeDiff / totalTimeDiff : 0;
-
-        // Calculate the exact position
-        exactPosition = (todayIndex + proportion) * periodConfig.width * 16; // convert to pixels
-      } else {
-        exactPosition = todayIndex * periodConfig.width * 16;
-      }
+  const getVarianceLabel = (variance: number) => {
+    const days = Math.abs(variance);
+    return `${days} ${days === 1 ? 'day' : 'days'} ${variance > 0 ? 'behind' : 'ahead of'} baseline`;
+  };
 
-      const targetPosition = Math.max(0, exactPosition - containerRef.current.clientWidth / 2);
+  // Accessible name of the task bar with its dates and baseline variance
+  const getTaskLabel = (task: GanttChartData, milestone: boolean) => {
+    const dates = milestone
+      ? formatDate(task.start, 'PP')
+      : `${formatDate(task.start, 'PP')} – ${formatDate(task.end, 'PP')}`;
+    const variance = getBaselineVariance(task);
+    return [task.name, dates, variance !== 0 && getVarianceLabel(variance)]
+      .filter(Boolean)
+      .join(', ');
+  };
 
-      containerRef.current.scrollLeft = targetPosition;
+  // Planned dates bar under the task and the number of days the task finishes after the plan
+  const renderBaseline = (task: GanttChartData) => {
+    if (!task.baselineStart) {
+      return null;
     }
-  }, [allPeriods, periodConfig, TOTAL_PERIODS, setAllPeriods, setVisibleRange]);
 
-  // Format period label using the config
-  const formatPeriodLabel = (date: Date) => {
-    return format(date, periodConfig.labelFormat);
+    const baseline = { start: task.baselineStart, end: task.baselineEnd ?? task.baselineStart };
+    const baselineStyle = getTaskStyle(baseline);
+    const variance = getBaselineVariance(task);
+
+    return (
+      <>
+        <Box
+          {...getStyles('baseline')}
+          style={baselineStyle}
+          aria-hidden
+          mod={{ milestone: baselineStyle.width === 0 }}
+        />
+        {variance !== 0 && (
+          <Box
+            {...getStyles('baselineVariance')}
+            style={{
+              left: Math.max(baselineStyle.left + baselineStyle.width, getTaskPosition(task).end),
+            }}
+            title={getVarianceLabel(variance)}
+            aria-hidden
+            mod={{ variance: variance > 0 ? 'behind' : 'ahead' }}
+          >
+            {variance > 0 ? `+${variance}d` : `${variance}d`}
+          </Box>
+        )}
+      </>
+    );
   };
 
-  // Calculate task position and width
-  const getTaskStyle = (task: GanttChartData) => {
-    // If there are no periods, hide all tasks
-    if (allPeriods.length === 0) {
-      return {
-        display: 'none',
-      };
-    }
+  // State passed to render functions of the task
+  const getRenderState = (row: GanttChartRow): GanttChartRenderState => ({
+    row,
+    scale,
+    selected: selectedTaskId === row.task.id,
+    hovered: hoveredTaskId === row.task.id,
+    dragging: preview?.taskId === row.task.id,
+  });
 
-    // Find the first and last visible periods
-    const firstVisiblePeriod = allPeriods[0];
-    const lastVisiblePeriod = allPeriods[allPeriods.length - 1];
+  // Hover handlers of the task row in the table and the timeline
+  const getHoverHandlers = (task: GanttChartData) => ({
+    onMouseEnter: () => setHoveredTaskId(task.id),
+    onMouseLeave: () => setHoveredTaskId((current) => (current === task.id ? null : current)),
+  });
 
-    // Check if task is completely outside the visible timeline
-    if (
-      task.start.getTime() > lastVisiblePeriod.getTime() ||
-      task.end.getTime() < firstVisiblePeriod.getTime()
-    ) {
-      return {
-        display: 'none',
-      };
+  // Colors of tasks that override the chart color or variant, the progress fill follows the bar color
+  const getTaskColorStyle = (task: GanttChartData) => {
+    if (!task.color && !task.variant) {
+      return undefined;
     }
 
-    // Calculate time differences from the first visible period
-    const timeDiffFromStart = task.start.getTime() - firstVisiblePeriod.getTime();
-    const timeDiffFromEnd = task.end.getTime() - firstVisiblePeriod.getTime();
-
-    // Calculate period width in milliseconds using date-fns
-    const periodWidthMs = differenceInMilliseconds(
-      add(firstVisiblePeriod, periodConfig.increment),
-      firstVisiblePeriod
+    const taskColorVars = getTaskColorVars(
+      theme,
+      task.color ?? color,
+      task.variant ?? (variant as GanttChartVariant)
     );
 
-    // Calculate positions in rem units
-    const periodWidth = periodConfig.width;
-    let startPosition = (timeDiffFromStart / periodWidthMs) * periodWidth;
-    let endPosition = (timeDiffFromEnd / periodWidthMs) * periodWidth;
+    return progressColor
+      ? taskColorVars
+      : { ...taskColorVars, '--gantt-progress-color': taskColorVars['--gantt-task-hover'] };
+  };
 
-    // Clamp positions to visible range
-    startPosition = Math.max(0, startPosition);
-    endPosition = Math.min(allPeriods.length * periodWidth, endPosition);
+  // Position of the current time on the timeline canvas
+  const todayPosition = timeScale.timeToX(new Date());
 
-    // Calculate the style object
-    return {
-      left: `${startPosition}rem`,
-      width: `${endPosition - startPosition}rem`,
-    };
-  };
+  // Center the task row vertically when it is out of the viewport
+  const scrollToRow = useCallback(
+    (rowIndex: number) => {
+      if (!containerRef.current || rowIndex === -1) {
+        return;
+      }
 
-  // Update the total width for the container
-  const totalWidth = useMemo(() => {
-    return `${allPeriods.length * periodConfig.width}rem`;
-  }, [allPeriods.length, periodConfig.width]);
+      const rowTop = DATES_HEIGHT + rowIndex * ROW_HEIGHT;
+      const { scrollTop, clientHeight } = containerRef.current;
 
-  // Update the function to calculate the position of today's line more accurately
-  const getTodayPosition = useMemo(() => {
-    const today = new Date();
+      if (rowTop < scrollTop || rowTop + ROW_HEIGHT > scrollTop + clientHeight) {
+        containerRef.current.scrollTop = Math.max(0, rowTop - (clientHeight - ROW_HEIGHT) / 2);
+      }
+    },
+    [ROW_HEIGHT, DATES_HEIGHT]
+  );
 
-    // If there are no periods, don't show the line
-    if (allPeriods.length === 0) {
-      return null;
-    }
+  // Add scroll to task function
+  const scrollToTask = useCallback(
+    (task: GanttChartData) => {
+      scrollToRow(rows.findIndex((row) => row.task.id === task.id));
 
-    // Find the period before and after the current time
-    let beforeIndex = -1;
-    let afterIndex = -1;
+      // Position task at left edge with one period offset
+      scrollToTime(task.start, 'start');
+    },
+    [scrollToTime, scrollToRow, rows]
+  );
 
-    // Find the exact period that contains today or the periods before/after today
-    for (let i = 0; i < allPeriods.length - 1; i++) {
-      const currentPeriod = allPeriods[i];
-      const nextPeriod = allPeriods[i + 1];
+  // Scroll to the row requested by `chartRef.scrollToTask` after its ancestors are expanded
+  useEffect(() => {
+    if (scrollRequestRef.current === null) {
+      return;
+    }
 
-      if (today.getTime() >= currentPeriod.getTime() && today.getTime() < nextPeriod.getTime()) {
-        beforeIndex = i;
-        afterIndex = i + 1;
-        break;
-      }
+    scrollToRow(rows.findIndex((row) => row.task.id === scrollRequestRef.current));
+    scrollRequestRef.current = null;
+  }, [rows]);
+
+  // Element ids of the task bar and the table cells of the row, used for focus and `aria-owns`
+  const getTaskCellId = (rowIndex: number) => `${id}-row-${rowIndex}-task`;
+  const getColumnCellId = (rowIndex: number, columnIndex: number) =>
+    `${id}-row-${rowIndex}-column-${columnIndex}`;
+
+  // Only a single task bar is in the tab order, the focused one or the first rendered
+  const tabStopId = renderedRows.some((row) => row.task.id === focusedTaskId)
+    ? focusedTaskId
+    : renderedRows[0]?.task.id;
+
+  // Move the roving focus to the row, the row and its task bar are scrolled into view
+  const focusRow = (rowIndex: number) => {
+    const index = Math.min(rows.length - 1, Math.max(0, rowIndex));
+    const row = rows[index];
+    const container = containerRef.current;
+    if (!row || !container) {
+      return;
     }
 
-    // If we couldn't find surrounding periods directly, get the closest period
-    if (beforeIndex === -1) {
-      // Align today according to scale for initial search
-      const alignedToday = periodConfig.alignDate(today);
+    setFocusedTaskId(row.task.id);
+    focusRequestRef.current = true;
+    scrollToRow(index);
 
-      // Find closest period to today
-      let todayIndex = allPeriods.findIndex((period) =>
-        periodConfig.isPeriodExactMatch(period, alignedToday)
-      );
+    const position = getTaskPosition(row.task);
+    if (
+      position.end < container.scrollLeft ||
+      position.start > container.scrollLeft + container.clientWidth
+    ) {
+      scrollToTime(row.task.start, 'start');
+    }
+  };
 
-      // If not found with exact match, try to find the closest period
-      if (todayIndex === -1) {
-        // Find periods that are on the same day for current scale
-        const relevantPeriods = allPeriods.filter((period) =>
-          periodConfig.isPeriodOnSameDay(period, today)
-        );
+  // Focus the requested task bar after its row is rendered
+  useEffect(() => {
+    if (!focusRequestRef.current) {
+      return;
+    }
 
-        if (relevantPeriods.length > 0) {
-          // Get the closest period based on time difference
-          let closestPeriod = relevantPeriods[0];
-          let minDiff = Math.abs(closestPeriod.getTime() - today.getTime());
+    const rowIndex = rows.findIndex((row) => row.task.id === focusedTaskId);
+    const element = rowIndex === -1 ? null : document.getElementById(getTaskCellId(rowIndex));
+    if (element) {
+      focusRequestRef.current = false;
+      element.focus({ preventScroll: true });
+    }
+  });
 
-          relevantPeriods.forEach((period) => {
-            const diff = Math.abs(period.getTime() - today.getTime());
-            if (diff < minDiff) {
-              minDiff = diff;
-              closestPeriod = period;
-            }
-          });
+  // Rows of the timeline own the table cells of the task, the table is outside of the treegrid
+  const getRowProps = (row: GanttChartRow, rowIndex: number) => ({
+    role: 'row',
+    'aria-rowindex': rowIndex + 1,
+    'aria-level': row.depth + 1,
+    'aria-expanded': row.hasChildren ? row.expanded : undefined,
+    'aria-selected': row.task.id === selectedTaskId,
+    'aria-owns': showTable
+      ? tableColumns.map((_, index) => getColumnCellId(rowIndex, index)).join(' ')
+      : undefined,
+  });
 
-          todayIndex = allPeriods.indexOf(closestPeriod);
-        }
-      }
+  // Task bar and milestone are the focusable cells of the treegrid
+  const getTaskCellProps = (row: GanttChartRow, rowIndex: number, milestone: boolean) => ({
+    id: getTaskCellId(rowIndex),
+    role: 'gridcell',
+    tabIndex: row.task.id === tabStopId ? 0 : -1,
+    'aria-label': getTaskLabel(row.task, milestone),
+    onFocus: () => setFocusedTaskId(row.task.id),
+    onKeyDown: getTaskKeyDownHandler(row, rowIndex),
+    onClick: () => setSelectedTaskId(row.task.id),
+    onDoubleClick: () => onTaskOpen?.(row.task),
+  });
 
-      if (todayIndex === -1) {
-        return null;
+  // Arrows move between rows and pan the timeline, Shift moves the task and Alt expands or collapses it
+  const getTaskKeyDownHandler =
+    (row: GanttChartRow, rowIndex: number) => (event: React.KeyboardEvent<HTMLElement>) => {
+      // Resize and progress handles inside the bar have their own keyboard handlers
+      if (event.target !== event.currentTarget) {
+        return;
       }
 
-      // If closest period is after today
-      if (allPeriods[todayIndex].getTime() > today.getTime()) {
-        if (todayIndex > 0) {
-          beforeIndex = todayIndex - 1;
-          afterIndex = todayIndex;
-        } else {
-          // At the very beginning of the timeline
-          return `0rem`;
+      const { task, hasChildren, expanded } = row;
+      const container = containerRef.current;
+
+      switch (event.key) {
+        case 'ArrowUp':
+        case 'ArrowDown':
+          focusRow(rowIndex + (event.key === 'ArrowUp' ? -1 : 1));
+          break;
+        case 'Home':
+        case 'End':
+          focusRow(event.key === 'Home' ? 0 : rows.length - 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          const direction = event.key === 'ArrowLeft' ? -1 : 1;
+          if (event.shiftKey) {
+            if (!hasChildren) {
+              moveTask(task, direction);
+            }
+          } else if (event.altKey) {
+            if (hasChildren && expanded !== direction > 0) {
+              toggleExpanded(task.id);
+            }
+          } else if (container) {
+            container.scrollLeft += direction * timeScale.periodWidthPx;
+          }
+          break;
         }
+        case '+':
+        case '=':
+        case '-':
+          zoomAt(
+            event.key === '-' ? 1 / KEYBOARD_ZOOM_STEP : KEYBOARD_ZOOM_STEP,
+            (container?.clientWidth ?? 0) / 2
+          );
+          break;
+        case 'Enter':
+          onTaskOpen?.(task);
+          break;
+        case ' ':
+          setSelectedTaskId(task.id);
+          break;
+        default:
+          return;
       }
-      // If closest period is before today
-      else if (todayIndex < allPeriods.length - 1) {
-        beforeIndex = todayIndex;
-        afterIndex = todayIndex + 1;
-      } else {
-        // At the very end of the timeline
-        return `${(allPeriods.length - 1) * periodConfig.width}rem`;
-      }
-    }
 
-    // Calculate the exact position based on time proportion
-    const beforeTime = allPeriods[beforeIndex].getTime();
-    const afterTime = allPeriods[afterIndex].getTime();
-    const totalTimeDiff = afterTime - beforeTime;
-    const currentTimeDiff = today.getTime() - beforeTime;
-
-    // Calculate proportion of the way between periods (0 to 1)
-    const proportion = totalTimeDiff > 0 ? currentTimeDiff / totalTimeDiff : 0;
+      event.preventDefault();
+    };
 
-    // Calculate the exact position
-    const exactPosition = beforeIndex * periodConfig.width + proportion * periodConfig.width;
+  // Switch to the most detailed available scale that fits all tasks and center them
+  const fitToData = () => {
+    const container = containerRef.current;
+    if (!container || data.length === 0) {
+      return;
+    }
 
-    return `${exactPosition}rem`;
-  }, [allPeriods, periodConfig]);
+    const start = Math.min(...data.map((task) => task.start.getTime()));
+    const end = Math.max(...data.map((task) => task.end.getTime()));
+    const center = start + (end - start) / 2;
+
+    // Scales from the most to the least detailed, keep a period of space on each side
+    const candidates = scaleOptions
+      .map(({ value }) => ({ value, timeScale: createTimeScale(center, periodConfigs[value]) }))
+      .sort((a, b) => b.timeScale.pxPerMs - a.timeScale.pxPerMs);
+    const fitting =
+      candidates.find(
+        ({ timeScale: candidate }) =>
+          (end - start) * candidate.pxPerMs + 2 * candidate.periodWidthPx <= container.clientWidth
+      ) ?? candidates[candidates.length - 1];
+
+    setAnchor({
+      scale: fitting.value,
+      zoom: 1,
+      epoch: periodConfigs[fitting.value].alignDate(toZone(center)).getTime(),
+      focus: { time: center, align: 'center' },
+    });
+    setScale(fitting.value);
+  };
 
-  // Add scroll to task function
-  const scrollToTask = useCallback(
-    (task: GanttChartData) => {
-      if (!containerRef.current) {
+  useImperativeHandle(chartRef, () => ({
+    scrollToDate: (date, options) => scrollToTime(date, options?.align ?? 'center'),
+    scrollToTask: (id) => {
+      const task = rows.find((row) => row.task.id === id)?.task;
+      if (task) {
+        scrollToTask(task);
         return;
       }
 
-      const periodWidthPx = periodConfig.width * 16; // convert rem to px
-      const containerWidth = containerRef.current.clientWidth;
-
-      // Generate new periods centered around the task
-      const newPeriods: Date[] = [];
-      const halfCount = Math.floor(TOTAL_PERIODS / 2);
-
-      // Use the task's start date as the center
-      const centerDate = periodConfig.alignDate(task.start);
-
-      // Generate periods before the task start
-      let tempDate = new Date(centerDate);
-      for (let i = 0; i < halfCount; i++) {
-        tempDate = add(tempDate, {
-          ...periodConfig.increment,
-          ...{
-            [Object.keys(periodConfig.increment)[0]]: -Object.values(periodConfig.increment)[0],
-          },
-        });
-        newPeriods.unshift(new Date(tempDate));
-      }
-
-      // Add the center date and future periods
-      newPeriods.push(new Date(centerDate));
-      tempDate = new Date(centerDate);
-
-      for (let i = 0; i < halfCount - 1; i++) {
-        tempDate = add(tempDate, periodConfig.increment);
-        newPeriods.push(new Date(tempDate));
+      // Hidden tasks are scrolled to once their collapsed ancestors are expanded
+      const hiddenTask = data.find((t) => t.id === id);
+      if (hiddenTask) {
+        const collapsed = getAncestorIds(data, id).filter(
+          (ancestorId) => !expandedIds.includes(ancestorId)
+        );
+        if (collapsed.length > 0) {
+          scrollRequestRef.current = id;
+          setExpandedIds([...expandedIds, ...collapsed]);
+        }
+        scrollToTime(hiddenTask.start, 'start');
       }
+    },
+    setScale,
+    fitToData,
+    getVisibleRange: () => {
+      const scrollLeft = containerRef.current?.scrollLeft ?? viewport.scrollLeft;
+      const width = containerRef.current?.clientWidth ?? viewport.width;
+      return { start: timeScale.xToTime(scrollLeft), end: timeScale.xToTime(scrollLeft + width) };
+    },
+  }));
 
-      // Reset virtual offset and update state
-      virtualOffsetRef.current = 0;
-      setAllPeriods(newPeriods);
-
-      // Update visible range
-      const visibleCount = Math.ceil(containerWidth / periodWidthPx);
-      const startIndex = Math.max(0, halfCount - Math.floor(visibleCount / 2));
-      const endIndex = halfCount + Math.ceil(visibleCount / 2);
+  const emitVisibleRange = useDebouncedCallback(
+    (range: GanttChartVisibleRange) => onVisibleRangeChange?.(range),
+    VISIBLE_RANGE_DELAY
+  );
 
-      setVisibleRange({
-        startIndex,
-        endIndex,
+  // Report the viewport range after scrolling, resizing, moving the epoch or changing scale
+  useEffect(() => {
+    if (onVisibleRangeChange) {
+      emitVisibleRange({
+        start: timeScale.xToTime(viewport.scrollLeft),
+        end: timeScale.xToTime(viewport.scrollLeft + viewport.width),
+        scale,
       });
+    }
+  }, [viewport, timeScale, scale]);
 
-      // After the state update, scroll to the task
-      setTimeout(() => {
-        if (containerRef.current) {
-          const taskStartIndex = newPeriods.findIndex((period) =>
-            periodConfig.isPeriodExactMatch(period, task.start)
-          );
-
-          if (taskStartIndex !== -1) {
-            // Calculate the target scroll position to position task at left edge with one period offset
-            const targetPosition = Math.max(0, (taskStartIndex - 1) * periodWidthPx);
-            containerRef.current.scrollLeft = targetPosition;
-          } else {
-            // Try to find the closest period
-            const closestIndex = newPeriods.findIndex(
-              (period) => period.getTime() > task.start.getTime()
-            );
-            if (closestIndex !== -1) {
-              const targetPosition = Math.max(0, (closestIndex - 1) * periodWidthPx);
-              containerRef.current.scrollLeft = targetPosition;
-            }
-          }
-        }
-      }, 0);
-    },
-    [periodConfig, TOTAL_PERIODS, setAllPeriods, setVisibleRange, scale, allPeriods, data]
-  );
+  // Loading indicators use both the shared and the edge specific selectors
+  const getLoadingIndicatorProps = (side: 'left' | 'right') => {
+    const edgeStyles = getStyles(
+      side === 'left' ? 'loadingIndicatorLeft' : 'loadingIndicatorRight'
+    );
+    return getStyles('loadingIndicator', {
+      className: edgeStyles.className,
+      style: edgeStyles.style,
+    });
+  };
 
   return (
-    <Box ref={ref} {...getStyles('root')} {...others}>
+    <Box ref={ref} {...getStyles('root')} variant={variant} {...others}>
       {showTable && (
-        <Box {...getStyles('table')}>
-          <Box>
-            {data.map((d) => (
-              <Box {...getStyles('tableCell')} key={d.id}>
-                <span {...getStyles('taskName')}>{d.name}</span>
-
-                <ActionIcon
-                  variant="default"
-                  color="gray"
-                  aria-label="Scroll to task"
-                  size="sm"
-                  onClick={() => scrollToTask(d)}
+        <Box
+          {...getStyles('table')}
+          ref={tableRef}
+          style={tableWidth !== undefined ? { width: tableWidth, flex: 'none' } : undefined}
+          onWheel={(event) => {
+            // The table does not scroll by itself, it follows the timeline
+            if (containerRef.current) {
+              containerRef.current.scrollTop += event.deltaY;
+            }
+          }}
+        >
+          {columns && (
+            <Box {...getStyles('tableHeader')}>
+              {tableColumns.map((column) => {
+                const direction = sort?.key === column.key ? sort.direction : undefined;
+                const SortIcon =
+                  direction === 'asc'
+                    ? IconArrowUp
+                    : direction === 'desc'
+                      ? IconArrowDown
+                      : IconSelector;
+
+                return (
+                  <Box
+                    key={column.key}
+                    {...getStyles('tableHeaderCell')}
+                    style={getColumnStyle(column)}
+                    mod={{ sorted: direction }}
+                    aria-sort={
+                      direction === 'asc'
+                        ? 'ascending'
+                        : direction === 'desc'
+                          ? 'descending'
+                          : undefined
+                    }
+                  >
+                    {isColumnSortable(column) ? (
+                      <UnstyledButton
+                        {...getStyles('tableSortButton')}
+                        onClick={() => setSort(getNextSort(sort, column.key))}
+                      >
+                        {column.label}
+                        <SortIcon size={14} />
+                      </UnstyledButton>
+                    ) : (
+                      column.label
+                    )}
+                  </Box>
+                );
+              })}
+            </Box>
+          )}
+          <Box style={rowsContainerStyle}>
+            {renderedRows.map((row, i) => {
+              const { task: d, depth, hasChildren, expanded } = row;
+              const renderState = getRenderState(row);
+              const rowIndex = rowRange.start + i;
+
+              return (
+                <Box
+                  {...getStyles('tableCell')}
+                  key={d.id}
+                  style={{ '--task-depth': depth }}
+                  mod={{
+                    depth,
+                    parent: hasChildren,
+                    milestone: !hasChildren && isMilestone(d),
+                    selected: renderState.selected,
+                    hovered: renderState.hovered,
+                  }}
+                  onClick={() => setSelectedTaskId(d.id)}
+                  onDoubleClick={() => onTaskOpen?.(d)}
+                  {...getHoverHandlers(d)}
                 >
-                  <IconTarget size={16} />
-                </ActionIcon>
-              </Box>
-            ))}
+                  {tableColumns.map((column, index) => (
+                    <Box
+                      key={column.key}
+                      {...getStyles('tableColumnCell')}
+                      id={getColumnCellId(rowIndex, index)}
+                      role="gridcell"
+                      style={getColumnStyle(column)}
+                      mod={{ first: index === 0 }}
+                    >
+                      {index === 0 && (
+                        <Box {...getStyles('treeToggle')}>
+                          {hasChildren && (
+                            <ActionIcon
+                              variant="subtle"
+                              color="gray"
+                              size="sm"
+                              tabIndex={-1}
+                              aria-label={`${expanded ? 'Collapse' : 'Expand'} ${d.name}`}
+                              aria-expanded={expanded}
+                              mod={{ expanded }}
+                              onClick={() => toggleExpanded(d.id)}
+                            >
+                              <IconChevronRight size={14} />
+                            </ActionIcon>
+                          )}
+                        </Box>
+                      )}
+                      {column.render ? (
+                        column.render(d, row)
+                      ) : renderTableCell ? (
+                        renderTableCell(d, { ...renderState, column })
+                      ) : (
+                        <span
+                          {...getStyles(
+                            column.accessor === 'name' ? 'taskName' : 'tableColumnValue'
+                          )}
+                        >
+                          {formatColumnValue(getColumnValue(column, d), { locale, timeZone })}
+                        </span>
+                      )}
+                    </Box>
+                  ))}
+
+                  <ActionIcon
+                    variant="default"
+                    color="gray"
+                    aria-label="Scroll to task"
+                    size="sm"
+                    tabIndex={-1}
+                    onClick={() => scrollToTask(d)}
+                  >
+                    <IconTarget size={16} />
+                  </ActionIcon>
+                </Box>
+              );
+            })}
           </Box>
         </Box>
       )}
 
+      {showTable && (
+        <Box
+          {...getStyles('splitter')}
+          role="separator"
+          tabIndex={0}
+          aria-label="Resize task table"
+          aria-orientation="vertical"
+          aria-valuenow={splitterValue}
+          aria-valuemin={minTableWidth}
+          aria-valuemax={maxTableWidth}
+          {...splitterHandlers}
+        />
+      )}
+
       <Box {...getStyles('main')}>
         {/* Controls with height 0 to overlay without taking space */}
         <Box {...getStyles('controls')}>
           <Box {...getStyles('controlsContainer')}>
             <Box {...getStyles('periodInfo')}>
-              {visibleRange.startIndex < allPeriods.length &&
-              allPeriods[Math.max(0, visibleRange.startIndex)]
-                ? format(
-                    allPeriods[Math.max(0, visibleRange.startIndex)],
-                    periodConfig.headerFormat
-                  )
-                : ''}
+              {formatDate(
+                periodConfig.alignDate(toZone(timeScale.xToTime(viewport.scrollLeft))),
+                periodConfig.headerFormat
+              )}
             </Box>
             <Box {...getStyles('controlActions')}>
               <Button
@@ -867,13 +1507,13 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
               </Button>
               <Select
                 variant="unstyled"
-                data={SCALE_OPTIONS}
+                data={scaleOptions}
                 value={scale}
                 w="6.5rem"
+                allowDeselect={false}
                 onChange={(value) => {
                   if (value) {
-                    const newScale = value as PeriodScale;
-                    setInternalScale(newScale);
+                    setScale(value);
                   }
                 }}
               />
@@ -881,8 +1521,27 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
           </Box>
         </Box>
 
+        {loadingLeft && (
+          <Box
+            {...getLoadingIndicatorProps('left')}
+            role="status"
+            aria-label="Loading earlier tasks"
+          >
+            <Loader size="sm" />
+          </Box>
+        )}
+        {loadingRight && (
+          <Box
+            {...getLoadingIndicatorProps('right')}
+            role="status"
+            aria-label="Loading later tasks"
+          >
+            <Loader size="sm" />
+          </Box>
+        )}
+
         <Box {...getStyles('scrollArea')} ref={containerRef} onScroll={handleScroll}>
-          <Box {...getStyles('chartContent')} style={{ width: totalWidth }}>
+          <Box {...getStyles('chartContent')} style={{ width: TIMELINE_WIDTH }}>
             <Box {...getStyles('dates')}>
               <Box {...getStyles('datesContainer')} style={{ left: periodsOffset }}>
                 {/* Period headers row */}
@@ -891,42 +1550,37 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
                     // Group periods by their group key (e.g., month or year)
                     const groups: {
                       key: string;
-                      periods: Date[];
                       displayName: string;
-                      startIndex: number;
+                      left: number;
+                      width: number;
                     }[] = [];
 
                     // Process all visible periods
-                    visiblePeriods.forEach((period, index) => {
+                    periodCells.forEach(({ period, left, width }) => {
                       const groupKey = periodConfig.getGroupKey(period);
                       const existingGroup = groups.find((g) => g.key === groupKey);
 
                       if (existingGroup) {
                         // Add to existing group
-                        existingGroup.periods.push(period);
+                        existingGroup.width += width;
                       } else {
                         // Create new group
                         groups.push({
                           key: groupKey,
-                          periods: [period],
-                          displayName: format(period, periodConfig.periodHeaderFormat),
-                          startIndex: index,
+                          displayName: formatDate(period, periodConfig.periodHeaderFormat),
+                          left: left - periodsOffset,
+                          width,
                         });
                       }
                     });
 
                     // Render the group headers
                     return groups.map((group) => {
-                      const width = group.periods.length * periodConfig.width;
-
                       return (
                         <Box
                           key={group.key}
                           {...getStyles('periodHeaderGroup')}
-                          style={{
-                            left: `${group.startIndex * periodConfig.width}rem`,
-                            width: `${width}rem`,
-                          }}
+                          style={{ left: group.left, width: group.width }}
                         >
                           <Box {...getStyles('periodHeader')}>{group.displayName}</Box>
                         </Box>
@@ -937,12 +1591,13 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
 
                 {/* Date cells row */}
                 <Box {...getStyles('dateCellsRow')}>
-                  {visiblePeriods.map((period, index) => (
+                  {periodCells.map(({ period, width, markType, holidayName }) => (
                     <Box
                       {...getStyles('dateCell')}
-                      key={index}
-                      style={{ width: getPeriodWidth() }}
-                      data-mark-type={periodConfig.getMarkType(period)}
+                      key={period.getTime()}
+                      style={{ width }}
+                      title={holidayName}
+                      data-mark-type={markType}
                       data-scale={scale}
                       data-minutes={period.getMinutes()}
                     >
@@ -954,30 +1609,218 @@ export const GanttChart = factory<GanttChartFactory>((_props, ref) => {
             </Box>
             <Box {...getStyles('tasksView')}>
               <Box {...getStyles('periodGrid')} style={{ left: periodsOffset }}>
-                {visiblePeriods.map((period, index) => {
+                {periodCells.map(({ period, width, markType }) => {
                   return (
                     <Box
-                      key={index}
+                      key={period.getTime()}
                       {...getStyles('periodGridLine')}
-                      style={{ width: getPeriodWidth() }}
-                      data-mark-type={periodConfig.getMarkType(period)}
+                      style={{ width }}
+                      data-mark-type={markType}
                       data-scale={scale}
                       data-minutes={period.getMinutes()}
                     />
                   );
                 })}
               </Box>
-              {getTodayPosition && (
-                <Box {...getStyles('todayLine')} style={{ left: getTodayPosition }} title="Today" />
-              )}
-              <Box {...getStyles('tasksContainer')} style={{ width: totalWidth }}>
-                {data.map((d) => (
-                  <Box {...getStyles('taskLine')} key={d.id}>
-                    <Box {...getStyles('task')} style={getTaskStyle(d)}>
-                      {d.name}
-                    </Box>
+              <Box {...getStyles('todayLine')} style={{ left: todayPosition }} title="Today" />
+              <Box
+                {...getStyles('tasksContainer')}
+                style={{ width: TIMELINE_WIDTH, ...rowsContainerStyle }}
+                role="treegrid"
+                aria-label="Gantt chart"
+                aria-rowcount={rows.length}
+              >
+                {dependencyPaths.length > 0 && (
+                  <Box
+                    component="svg"
+                    {...getStyles('dependencies')}
+                    style={{ height: rows.length * ROW_HEIGHT }}
+                    aria-hidden
+                  >
+                    <defs>
+                      <marker
+                        id={arrowMarkerId}
+                        viewBox="0 0 8 8"
+                        refX="8"
+                        refY="4"
+                        markerWidth="8"
+                        markerHeight="8"
+                        orient="auto-start-reverse"
+                      >
+                        <path d="M 0 0 L 8 4 L 0 8 z" {...getStyles('dependencyArrow')} />
+                      </marker>
+                      {criticalPath && (
+                        <marker
+                          id={`${arrowMarkerId}-critical`}
+                          viewBox="0 0 8 8"
+                          refX="8"
+                          refY="4"
+                          markerWidth="8"
+                          markerHeight="8"
+                          orient="auto-start-reverse"
+                        >
+                          <path
+                            d="M 0 0 L 8 4 L 0 8 z"
+                            {...getStyles('dependencyArrow')}
+                            data-critical
+                          />
+                        </marker>
+                      )}
+                    </defs>
+                    {dependencyPaths.map((dependency) => (
+                      <path
+                        key={dependency.key}
+                        d={dependency.path}
+                        markerEnd={`url(#${arrowMarkerId}${dependency.critical ? '-critical' : ''})`}
+                        data-from={dependency.from}
+                        data-to={dependency.to}
+                        data-type={dependency.type}
+                        data-critical={dependency.critical || undefined}
+                        {...getStyles('dependencyLine')}
+                      />
+                    ))}
                   </Box>
-                ))}
+                )}
+                {renderedRows.map((row, i) => {
+                  const { task: d, hasChildren } = row;
+                  const isDragging = preview?.taskId === d.id;
+                  const isEditable = !!onTaskChange && !hasChildren;
+                  const task = getDisplayedTask(d);
+                  const renderState = getRenderState(row);
+                  const rowIndex = rowRange.start + i;
+                  const isTabStop = d.id === tabStopId;
+
+                  if (!hasChildren && isMilestone(d)) {
+                    const milestoneStyle = getMilestoneStyle(task);
+                    const taskRenderState = {
+                      ...renderState,
+                      left: milestoneStyle.left,
+                      width: 0,
+                      milestone: true,
+                    };
+
+                    return (
+                      <Box
+                        {...getStyles('taskLine')}
+                        key={d.id}
+                        mod={{ milestone: true, hovered: renderState.hovered }}
+                        {...getRowProps(row, rowIndex)}
+                        {...getHoverHandlers(d)}
+                      >
+                        {renderBaseline(task)}
+                        <Box
+                          {...getStyles('milestone')}
+                          style={{ ...milestoneStyle, ...getTaskColorStyle(d) }}
+                          title={`${d.name}: ${formatDate(task.start, periodConfig.headerFormat)}`}
+                          mod={{
+                            draggable: isEditable,
+                            dragging: isDragging,
+                            selected: renderState.selected,
+                            critical: isCriticalTask(d),
+                          }}
+                          {...getTaskCellProps(row, rowIndex, true)}
+                          {...(isEditable ? getDragHandlers(d) : undefined)}
+                        >
+                          {renderTask
+                            ? renderTask(task, taskRenderState)
+                            : renderTaskLabel
+                              ? renderTaskLabel(task, taskRenderState)
+                              : d.name}
+                        </Box>
+                      </Box>
+                    );
+                  }
+
+                  const taskStyle = getTaskStyle(task);
+                  const taskRenderState = {
+                    ...renderState,
+                    left: taskStyle.left,
+                    width: taskStyle.width,
+                    milestone: false,
+                  };
+
+                  return (
+                    <Box
+                      {...getStyles('taskLine')}
+                      key={d.id}
+                      mod={{ summary: hasChildren, hovered: renderState.hovered }}
+                      {...getRowProps(row, rowIndex)}
+                      {...getHoverHandlers(d)}
+                    >
+                      {renderBaseline(task)}
+                      <Box
+                        {...getStyles('task')}
+                        style={{ ...taskStyle, ...getTaskColorStyle(d) }}
+                        mod={{
+                          selected: renderState.selected,
+                          critical: isCriticalTask(d),
+                          summary: hasChildren,
+                          draggable: isEditable,
+                          dragging: isDragging && preview.mode === 'move',
+                          resizing:
+                            isDragging &&
+                            (preview.mode === 'start' || preview.mode === 'end') &&
+                            preview.mode,
+                          'progress-dragging': isDragging && preview.mode === 'progress',
+                        }}
+                        {...getTaskCellProps(row, rowIndex, false)}
+                        {...(isEditable ? getDragHandlers(d) : undefined)}
+                      >
+                        {!renderTask && task.progress !== undefined && (
+                          <Box
+                            {...getStyles('taskProgress')}
+                            style={{ width: `${Math.min(100, Math.max(0, task.progress))}%` }}
+                          />
+                        )}
+                        {isEditable && (
+                          <Box
+                            {...getStyles('taskResizeHandle')}
+                            mod={{ edge: 'start' }}
+                            role="slider"
+                            tabIndex={isTabStop ? 0 : -1}
+                            aria-label={`Resize start of ${d.name}`}
+                            aria-valuenow={task.start.getTime()}
+                            aria-valuetext={formatDate(task.start, periodConfig.headerFormat)}
+                            {...getDragHandlers(d, 'start')}
+                            onKeyDown={getResizeKeyDownHandler(d, 'start')}
+                          />
+                        )}
+                        {renderTask
+                          ? renderTask(task, taskRenderState)
+                          : renderTaskLabel
+                            ? renderTaskLabel(task, taskRenderState)
+                            : d.name}
+                        {isEditable && (
+                          <Box
+                            {...getStyles('taskResizeHandle')}
+                            mod={{ edge: 'end' }}
+                            role="slider"
+                            tabIndex={isTabStop ? 0 : -1}
+                            aria-label={`Resize end of ${d.name}`}
+                            aria-valuenow={task.end.getTime()}
+                            aria-valuetext={formatDate(task.end, periodConfig.headerFormat)}
+                            {...getDragHandlers(d, 'end')}
+                            onKeyDown={getResizeKeyDownHandler(d, 'end')}
+                          />
+                        )}
+                        {isEditable && task.progress !== undefined && (
+                          <Box
+                            {...getStyles('taskProgressHandle')}
+                            style={{ left: `${Math.min(100, Math.max(0, task.progress))}%` }}
+                            role="slider"
+                            tabIndex={isTabStop ? 0 : -1}
+                            aria-label={`Progress of ${d.name}`}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={task.progress}
+                            {...getDragHandlers(d, 'progress')}
+                            onKeyDown={getProgressKeyDownHandler(d)}
+                          />
+                        )}
+                      </Box>
+                    </Box>
+                  );
+                })}
               </Box>
             </Box>
           </Box>
@@ -0,0 +1,60 @@
+import {
+  getCalendarMarkType,
+  getWorkingDays,
+  getWorkingDuration,
+  isWorkingDay,
+  isWorkingTime,
+} from './GanttChartCalendar';
+
+const HOUR = 60 * 60 * 1000;
+
+const calendar = {
+  holidays: [
+    { start: new Date(2024, 0, 1), name: 'New Year' },
+    { start: new Date(2024, 11, 24), end: new Date(2024, 11, 26), name: 'Christmas' },
+  ],
+  workingHours: { start: 9, end: 17.5 },
+};
+
+describe('GanttChartCalendar', () => {
+  it('excludes weekends and holidays from working days', () => {
+    expect(isWorkingDay(new Date(2024, 0, 2), calendar)).toBe(true);
+    expect(isWorkingDay(new Date(2024, 0, 6), calendar)).toBe(false);
+    expect(isWorkingDay(new Date(2024, 0, 1), calendar)).toBe(false);
+    expect(isWorkingDay(new Date(2024, 11, 25, 12), calendar)).toBe(false);
+    expect(isWorkingDay(new Date(2024, 0, 6), { workingDays: [6] })).toBe(true);
+  });
+
+  it('checks working hours', () => {
+    expect(isWorkingTime(new Date(2024, 0, 2, 8, 59), calendar)).toBe(false);
+    expect(isWorkingTime(new Date(2024, 0, 2, 9), calendar)).toBe(true);
+    expect(isWorkingTime(new Date(2024, 0, 2, 17, 29), calendar)).toBe(true);
+    expect(isWorkingTime(new Date(2024, 0, 2, 17, 30), calendar)).toBe(false);
+    expect(isWorkingTime(new Date(2024, 0, 2, 3), {})).toBe(true);
+  });
+
+  it('counts working days of the range', () => {
+    expect(getWorkingDays(new Date(2024, 0, 1), new Date(2024, 0, 8), calendar)).toBe(4);
+    expect(getWorkingDays(new Date(2024, 11, 23), new Date(2024, 11, 28), calendar)).toBe(2);
+    expect(getWorkingDays(new Date(2024, 0, 1), new Date(2024, 0, 8))).toBe(5);
+  });
+
+  it('calculates working duration of the range', () => {
+    expect(getWorkingDuration(new Date(2024, 0, 2), new Date(2024, 0, 4), calendar)).toBe(
+      17 * HOUR
+    );
+    expect(getWorkingDuration(new Date(2024, 0, 2, 12), new Date(2024, 0, 3, 10), calendar)).toBe(
+      6.5 * HOUR
+    );
+    expect(getWorkingDuration(new Date(2024, 0, 5, 12), new Date(2024, 0, 8, 12))).toBe(24 * HOUR);
+  });
+
+  it('resolves mark types of periods', () => {
+    expect(getCalendarMarkType(new Date(2024, 0, 1), 'major', calendar)).toBe('holiday');
+    expect(getCalendarMarkType(new Date(2024, 0, 2, 20), 'minor', calendar)).toBe('weekend');
+    expect(getCalendarMarkType(new Date(2024, 0, 7), 'weekend', { workingDays: [0] })).toBe(
+      'major'
+    );
+    expect(getCalendarMarkType(new Date(2024, 0, 2, 10), 'minor', calendar)).toBe('minor');
+  });
+});
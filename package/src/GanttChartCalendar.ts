@@ -0,0 +1,126 @@
+import { addDays, constructFrom, Day, startOfDay } from 'date-fns';
+import type { PeriodMarkType } from './GanttChartPeriodConfig';
+
+export interface GanttChartHoliday {
+  /** First day of the holiday */
+  start: Date;
+
+  /** Last day of the holiday, the holiday lasts a single day when not set */
+  end?: Date;
+
+  /** Name of the holiday displayed in the tooltip */
+  name?: string;
+}
+
+export interface GanttChartWorkingHours {
+  /** Hour the working day starts, for example `9` or `8.5` for 8:30 */
+  start: number;
+
+  /** Hour the working day ends, for example `17` */
+  end: number;
+}
+
+export interface GanttChartCalendar {
+  /** Working days of the week from 0 (Sunday) to 6 (Saturday), Monday to Friday by default */
+  workingDays?: Day[];
+
+  /** Non-working days, single days or ranges of days */
+  holidays?: GanttChartHoliday[];
+
+  /** Working time of a working day, the whole day by default */
+  workingHours?: GanttChartWorkingHours;
+}
+
+const DEFAULT_WORKING_DAYS: Day[] = [1, 2, 3, 4, 5];
+
+// Calendar day as a comparable number, holidays are matched by day regardless of time zone
+const getDayKey = (date: Date) =>
+  date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+
+/** Returns the holiday of the calendar that contains the date */
+export const getHoliday = (date: Date, calendar: GanttChartCalendar) => {
+  const day = getDayKey(date);
+  return calendar.holidays?.find(
+    (holiday) => getDayKey(holiday.start) <= day && day <= getDayKey(holiday.end ?? holiday.start)
+  );
+};
+
+/** Determines whether the date is on a working day of the calendar */
+export const isWorkingDay = (date: Date, calendar: GanttChartCalendar) =>
+  (calendar.workingDays ?? DEFAULT_WORKING_DAYS).includes(date.getDay() as Day) &&
+  !getHoliday(date, calendar);
+
+/** Determines whether the date is within working hours of a working day */
+export const isWorkingTime = (date: Date, calendar: GanttChartCalendar) => {
+  if (!isWorkingDay(date, calendar)) {
+    return false;
+  }
+
+  const { workingHours } = calendar;
+  const hour = date.getHours() + date.getMinutes() / 60;
+  return !workingHours || (hour >= workingHours.start && hour < workingHours.end);
+};
+
+/**
+ * Returns mark type of the period that starts at the date, non-working time is marked as weekend
+ * and weekends of the period config that are working days become major marks
+ */
+export const getCalendarMarkType = (
+  date: Date,
+  markType: PeriodMarkType,
+  calendar: GanttChartCalendar
+): PeriodMarkType => {
+  if (getHoliday(date, calendar)) {
+    return 'holiday';
+  }
+
+  if (!isWorkingTime(date, calendar)) {
+    return 'weekend';
+  }
+
+  return markType === 'weekend' ? 'major' : markType;
+};
+
+// Calls `callback` with the start of every day that overlaps the range
+const forEachDay = (start: Date, end: Date, callback: (day: Date) => void) => {
+  for (let day = startOfDay(start); day.getTime() < end.getTime(); day = addDays(day, 1)) {
+    callback(day);
+  }
+};
+
+/** Returns the number of working days that overlap the range */
+export const getWorkingDays = (start: Date, end: Date, calendar: GanttChartCalendar = {}) => {
+  let count = 0;
+  forEachDay(start, end, (day) => {
+    if (isWorkingDay(day, calendar)) {
+      count += 1;
+    }
+  });
+
+  return count;
+};
+
+// Timestamp of the hour on the clock of the day, keeps the time zone of `TZDate` days
+const getTimeOfDay = (day: Date, hour: number) => {
+  const date = constructFrom(day, day);
+  date.setHours(Math.floor(hour), Math.round((hour % 1) * 60), 0, 0);
+  return date.getTime();
+};
+
+/** Returns working time within the range in milliseconds */
+export const getWorkingDuration = (start: Date, end: Date, calendar: GanttChartCalendar = {}) => {
+  const { workingHours = { start: 0, end: 24 } } = calendar;
+  let duration = 0;
+
+  forEachDay(start, end, (day) => {
+    if (!isWorkingDay(day, calendar)) {
+      return;
+    }
+
+    const from = Math.max(start.getTime(), getTimeOfDay(day, workingHours.start));
+    const to = Math.min(end.getTime(), getTimeOfDay(day, workingHours.end));
+    duration += Math.max(0, to - from);
+  });
+
+  return duration;
+};
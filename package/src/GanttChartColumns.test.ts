@@ -0,0 +1,51 @@
+import { getNextSort, getTaskComparator } from './GanttChartColumns';
+
+const tasks = [
+  { id: '1', name: 'Task 10', start: new Date(2024, 0, 3), end: new Date(2024, 0, 4) },
+  { id: '2', name: 'Task 2', start: new Date(2024, 0, 1), end: new Date(2024, 0, 4) },
+  { id: '3', name: 'Task 1', start: new Date(2024, 0, 2), end: new Date(2024, 0, 4), progress: 10 },
+];
+
+const columns = [
+  { key: 'name', label: 'Name', accessor: 'name' as const },
+  { key: 'start', label: 'Start', accessor: 'start' as const },
+  { key: 'progress', label: 'Progress', accessor: (task: { progress?: number }) => task.progress },
+];
+
+describe('getTaskComparator', () => {
+  it('returns undefined without sort', () => {
+    expect(getTaskComparator(columns, null)).toBeUndefined();
+    expect(getTaskComparator(columns, { key: 'unknown', direction: 'asc' })).toBeUndefined();
+  });
+
+  it('sorts strings naturally and dates chronologically', () => {
+    const byName = getTaskComparator(columns, { key: 'name', direction: 'asc' });
+    const byStart = getTaskComparator(columns, { key: 'start', direction: 'desc' });
+
+    expect([...tasks].sort(byName).map((task) => task.id)).toEqual(['3', '2', '1']);
+    expect([...tasks].sort(byStart).map((task) => task.id)).toEqual(['1', '3', '2']);
+  });
+
+  it('keeps empty values last in both directions', () => {
+    const asc = getTaskComparator(columns, { key: 'progress', direction: 'asc' });
+    const desc = getTaskComparator(columns, { key: 'progress', direction: 'desc' });
+
+    expect([...tasks].sort(asc)[0].id).toBe('3');
+    expect([...tasks].sort(desc)[0].id).toBe('3');
+  });
+});
+
+describe('getNextSort', () => {
+  it('cycles ascending, descending and unsorted', () => {
+    expect(getNextSort(null, 'name')).toEqual({ key: 'name', direction: 'asc' });
+    expect(getNextSort({ key: 'name', direction: 'asc' }, 'name')).toEqual({
+      key: 'name',
+      direction: 'desc',
+    });
+    expect(getNextSort({ key: 'name', direction: 'desc' }, 'name')).toBeNull();
+    expect(getNextSort({ key: 'name', direction: 'desc' }, 'start')).toEqual({
+      key: 'start',
+      direction: 'asc',
+    });
+  });
+});
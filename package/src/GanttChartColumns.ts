@@ -0,0 +1,128 @@
+import React from 'react';
+import { TZDate } from '@date-fns/tz';
+import { format, Locale } from 'date-fns';
+import type { GanttChartData } from './GanttChart';
+import type { GanttChartRow } from './GanttChartTree';
+
+export interface GanttChartColumn {
+  /** Unique key of the column, used to identify sorted column */
+  key: string;
+
+  /** Content of the column header */
+  label: React.ReactNode;
+
+  /** Task field or function that returns the cell value, used for sorting and default cell content */
+  accessor?: keyof GanttChartData | ((task: GanttChartData) => unknown);
+
+  /** Custom cell content, cell value is displayed by default */
+  render?: (task: GanttChartData, row: GanttChartRow) => React.ReactNode;
+
+  /** Column width, any valid CSS value, the column takes the remaining space when not set */
+  width?: React.CSSProperties['width'];
+
+  /** Determines whether the column can be sorted by clicking its header, `true` when `accessor` is set */
+  sortable?: boolean;
+}
+
+export type GanttChartSortDirection = 'asc' | 'desc';
+
+export interface GanttChartSort {
+  /** Key of the sorted column */
+  key: string;
+
+  direction: GanttChartSortDirection;
+}
+
+// Format used to display date values in the table
+const DATE_FORMAT = 'MMM d, yyyy';
+
+export const DEFAULT_COLUMNS: GanttChartColumn[] = [
+  { key: 'name', label: 'Name', accessor: 'name' },
+];
+
+export const getColumnValue = (column: GanttChartColumn, task: GanttChartData) => {
+  if (typeof column.accessor === 'function') {
+    return column.accessor(task);
+  }
+
+  return column.accessor ? task[column.accessor] : undefined;
+};
+
+export const isColumnSortable = (column: GanttChartColumn) =>
+  column.sortable ?? column.accessor !== undefined;
+
+export interface ColumnFormatOptions {
+  locale?: Locale;
+
+  /** IANA time zone of date values, local time zone by default */
+  timeZone?: string;
+}
+
+export const formatColumnValue = (
+  value: unknown,
+  { locale, timeZone }: ColumnFormatOptions = {}
+): React.ReactNode => {
+  if (value instanceof Date) {
+    return format(timeZone ? new TZDate(value, timeZone) : value, DATE_FORMAT, { locale });
+  }
+
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Compares cell values of different types, empty values are placed last
+const compareValues = (a: unknown, b: unknown) => {
+  if (a === b) {
+    return 0;
+  }
+
+  if (a === undefined || a === null) {
+    return 1;
+  }
+
+  if (b === undefined || b === null) {
+    return -1;
+  }
+
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+
+  return String(left).localeCompare(String(right), undefined, { numeric: true });
+};
+
+/** Returns a compare function for the sorted column, `undefined` keeps the order of `data` */
+export const getTaskComparator = (columns: GanttChartColumn[], sort: GanttChartSort | null) => {
+  const column = sort && columns.find((c) => c.key === sort.key);
+  if (!sort || !column) {
+    return undefined;
+  }
+
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  return (a: GanttChartData, b: GanttChartData) => {
+    const aValue = getColumnValue(column, a);
+    const bValue = getColumnValue(column, b);
+
+    // Keep empty values last regardless of the direction
+    if (aValue === undefined || aValue === null || bValue === undefined || bValue === null) {
+      return compareValues(aValue, bValue);
+    }
+
+    return compareValues(aValue, bValue) * direction;
+  };
+};
+
+/** Header click cycles the sort: ascending, descending, unsorted */
+export const getNextSort = (sort: GanttChartSort | null, key: string): GanttChartSort | null => {
+  if (!sort || sort.key !== key) {
+    return { key, direction: 'asc' };
+  }
+
+  return sort.direction === 'asc' ? { key, direction: 'desc' } : null;
+};
@@ -0,0 +1,124 @@
+import { getCriticalPath } from './GanttChartCriticalPath';
+
+const DAY = 24 * 60 * 60 * 1000;
+const day = (value: number) => new Date(2024, 0, value);
+
+describe('getCriticalPath', () => {
+  it('calculates early and late dates and total float', () => {
+    const { tasks, links, finish } = getCriticalPath([
+      { id: 'a', name: 'A', start: day(1), end: day(3) },
+      { id: 'b', name: 'B', start: day(3), end: day(8), dependencies: [{ id: 'a' }] },
+      { id: 'c', name: 'C', start: day(3), end: day(5), dependencies: [{ id: 'a' }] },
+      {
+        id: 'd',
+        name: 'D',
+        start: day(8),
+        end: day(10),
+        dependencies: [{ id: 'b' }, { id: 'c' }],
+      },
+    ]);
+
+    expect(finish).toEqual(day(10));
+    expect(tasks.c).toEqual({
+      earlyStart: day(3),
+      earlyFinish: day(5),
+      lateStart: day(6),
+      lateFinish: day(8),
+      totalFloat: 3 * DAY,
+      critical: false,
+    });
+    expect(['a', 'b', 'c', 'd'].filter((id) => tasks[id].critical)).toEqual(['a', 'b', 'd']);
+    expect(links).toEqual([
+      { from: 'a', to: 'b', type: 'finish-to-start' },
+      { from: 'b', to: 'd', type: 'finish-to-start' },
+    ]);
+  });
+
+  it('pushes tasks that are planned before their predecessors finish', () => {
+    const { tasks } = getCriticalPath([
+      { id: 'a', name: 'A', start: day(1), end: day(5) },
+      { id: 'b', name: 'B', start: day(3), end: day(4), dependencies: [{ id: 'a' }] },
+    ]);
+
+    expect(tasks.b.earlyStart).toEqual(day(5));
+    expect(tasks.b.earlyFinish).toEqual(day(6));
+    expect(tasks.b.critical).toBe(true);
+  });
+
+  it('supports all dependency types', () => {
+    const { tasks } = getCriticalPath([
+      { id: 'a', name: 'A', start: day(1), end: day(5) },
+      {
+        id: 'b',
+        name: 'B',
+        start: day(1),
+        end: day(3),
+        dependencies: [{ id: 'a', type: 'start-to-start' }],
+      },
+      {
+        id: 'c',
+        name: 'C',
+        start: day(1),
+        end: day(2),
+        dependencies: [{ id: 'a', type: 'finish-to-finish' }],
+      },
+      {
+        id: 'd',
+        name: 'D',
+        start: day(1),
+        end: day(2),
+        dependencies: [{ id: 'b', type: 'start-to-finish' }],
+      },
+    ]);
+
+    expect(tasks.b.earlyStart).toEqual(day(1));
+    expect(tasks.c.earlyStart).toEqual(day(4));
+    expect(tasks.c.totalFloat).toBe(0);
+    expect(tasks.d.earlyStart).toEqual(day(1));
+    expect(tasks.b.totalFloat).toBe(2 * DAY);
+  });
+
+  it('skips parent tasks and ignores cycles', () => {
+    const { tasks, links } = getCriticalPath([
+      { id: 'p', name: 'Parent', start: day(1), end: day(10) },
+      {
+        id: 'a',
+        name: 'A',
+        start: day(1),
+        end: day(3),
+        parentId: 'p',
+        dependencies: [{ id: 'b' }],
+      },
+      {
+        id: 'b',
+        name: 'B',
+        start: day(3),
+        end: day(5),
+        parentId: 'p',
+        dependencies: [{ id: 'a' }, { id: 'unknown' }],
+      },
+    ]);
+
+    expect(Object.keys(tasks).sort()).toEqual(['a', 'b']);
+    expect(links).toEqual([]);
+  });
+
+  it('returns empty result without tasks', () => {
+    expect(getCriticalPath([])).toEqual({ tasks: {}, links: [], finish: null });
+  });
+
+  it('calculates long chains of tasks', () => {
+    const data = Array.from({ length: 8000 }, (_, index) => ({
+      id: `${index}`,
+      name: `Task ${index}`,
+      start: day(1),
+      end: day(2),
+      dependencies: index > 0 ? [{ id: `${index - 1}` }] : undefined,
+    }));
+    const { tasks, links, finish } = getCriticalPath(data);
+
+    expect(finish).toEqual(new Date(day(1).getTime() + 8000 * DAY));
+    expect(links).toHaveLength(7999);
+    expect(Object.values(tasks).every((task) => task.critical)).toBe(true);
+  });
+});
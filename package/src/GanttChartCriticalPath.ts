@@ -0,0 +1,216 @@
+import type { GanttChartData } from './GanttChart';
+import type { GanttChartDependencyType } from './GanttChartDependencies';
+import { getParentIds } from './GanttChartTree';
+
+export interface GanttChartTaskSchedule {
+  /** Earliest start of the task, not earlier than its planned start */
+  earlyStart: Date;
+
+  /** Earliest finish of the task */
+  earlyFinish: Date;
+
+  /** Latest start of the task that does not delay the project finish */
+  lateStart: Date;
+
+  /** Latest finish of the task that does not delay the project finish */
+  lateFinish: Date;
+
+  /** Time in milliseconds the task can be delayed without delaying the project finish */
+  totalFloat: number;
+
+  /** Determines whether any delay of the task delays the project finish */
+  critical: boolean;
+}
+
+export interface GanttChartCriticalLink {
+  /** Id of the predecessor task */
+  from: string;
+
+  /** Id of the successor task */
+  to: string;
+
+  type: GanttChartDependencyType;
+}
+
+export interface GanttChartCriticalPath {
+  /** Schedule of every task by id, parent tasks are not included */
+  tasks: Record<string, GanttChartTaskSchedule>;
+
+  /** Links between critical tasks that drive the successor dates */
+  links: GanttChartCriticalLink[];
+
+  /** Earliest finish of the project */
+  finish: Date | null;
+}
+
+interface ScheduleLink {
+  from: string;
+  to: string;
+  type: GanttChartDependencyType;
+}
+
+// Earliest start of the successor allowed by the link
+const getSuccessorStart = (
+  type: GanttChartDependencyType,
+  from: { start: number; finish: number },
+  duration: number
+) => {
+  switch (type) {
+    case 'start-to-start':
+      return from.start;
+    case 'finish-to-finish':
+      return from.finish - duration;
+    case 'start-to-finish':
+      return from.start - duration;
+    default:
+      return from.finish;
+  }
+};
+
+// Latest finish of the predecessor allowed by the link
+const getPredecessorFinish = (
+  type: GanttChartDependencyType,
+  to: { start: number; finish: number },
+  duration: number
+) => {
+  switch (type) {
+    case 'start-to-start':
+      return to.start + duration;
+    case 'finish-to-finish':
+      return to.finish;
+    case 'start-to-finish':
+      return to.finish + duration;
+    default:
+      return to.start;
+  }
+};
+
+// Groups links by the id of their predecessor or successor task
+const groupLinks = (ids: string[], links: ScheduleLink[], key: 'from' | 'to') => {
+  const groups = new Map<string, ScheduleLink[]>(ids.map((id) => [id, []]));
+  links.forEach((link) => groups.get(link[key])!.push(link));
+  return groups;
+};
+
+// Orders tasks so that predecessors come first, links that form cycles are dropped.
+// Remaining links are grouped by the successor and the predecessor id for the schedule passes
+const sortLinks = (ids: string[], links: ScheduleLink[]) => {
+  const incoming = new Map(ids.map((id) => [id, 0]));
+  const outgoing = new Map<string, ScheduleLink[]>(ids.map((id) => [id, []]));
+  links.forEach((link) => {
+    incoming.set(link.to, incoming.get(link.to)! + 1);
+    outgoing.get(link.from)!.push(link);
+  });
+
+  const order = ids.filter((id) => incoming.get(id) === 0);
+  for (let index = 0; index < order.length; index += 1) {
+    outgoing.get(order[index])!.forEach((link) => {
+      const count = incoming.get(link.to)! - 1;
+      incoming.set(link.to, count);
+      if (count === 0) {
+        order.push(link.to);
+      }
+    });
+  }
+
+  const position = new Map(order.map((id, index) => [id, index]));
+  const isSorted = (id: string) => position.has(id);
+  const sortedLinks = links.filter(
+    (link) =>
+      isSorted(link.from) && isSorted(link.to) && position.get(link.from)! < position.get(link.to)!
+  );
+
+  return {
+    order: [...order, ...ids.filter((id) => !isSorted(id))],
+    links: sortedLinks,
+    incomingLinks: groupLinks(ids, sortedLinks, 'to'),
+    outgoingLinks: groupLinks(ids, sortedLinks, 'from'),
+  };
+};
+
+/**
+ * Calculates the critical path of tasks connected with dependencies.
+ * Planned start of every task is its earliest start, parent tasks are skipped
+ * and links to unknown tasks or links that form cycles are ignored.
+ */
+export const getCriticalPath = (data: GanttChartData[]): GanttChartCriticalPath => {
+  const parentIds = new Set(getParentIds(data));
+  const tasks = data.filter((task) => !parentIds.has(task.id));
+  const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+  const { order, links, incomingLinks, outgoingLinks } = sortLinks(
+    tasks.map((task) => task.id),
+    tasks.flatMap((task) =>
+      (task.dependencies ?? [])
+        .filter((dependency) => dependency.id !== task.id && tasksById.has(dependency.id))
+        .map((dependency) => ({
+          from: dependency.id,
+          to: task.id,
+          type: dependency.type ?? ('finish-to-start' as const),
+        }))
+    )
+  );
+
+  const durations = new Map(
+    tasks.map((task) => [task.id, Math.max(0, task.end.getTime() - task.start.getTime())])
+  );
+  const early = new Map<string, { start: number; finish: number }>();
+  const late = new Map<string, { start: number; finish: number }>();
+
+  // Forward pass, tasks start as soon as their predecessors allow but not before the plan
+  order.forEach((id) => {
+    const duration = durations.get(id)!;
+    const start = incomingLinks
+      .get(id)!
+      .reduce(
+        (result, link) =>
+          Math.max(result, getSuccessorStart(link.type, early.get(link.from)!, duration)),
+        tasksById.get(id)!.start.getTime()
+      );
+    early.set(id, { start, finish: start + duration });
+  });
+
+  if (early.size === 0) {
+    return { tasks: {}, links: [], finish: null };
+  }
+
+  const finish = Math.max(...Array.from(early.values(), (dates) => dates.finish));
+
+  // Backward pass, tasks finish as late as their successors allow but not after the project
+  [...order].reverse().forEach((id) => {
+    const duration = durations.get(id)!;
+    const lateFinish = outgoingLinks
+      .get(id)!
+      .reduce(
+        (result, link) =>
+          Math.min(result, getPredecessorFinish(link.type, late.get(link.to)!, duration)),
+        finish
+      );
+    late.set(id, { start: lateFinish - duration, finish: lateFinish });
+  });
+
+  const schedules: Record<string, GanttChartTaskSchedule> = {};
+  order.forEach((id) => {
+    const totalFloat = late.get(id)!.start - early.get(id)!.start;
+    schedules[id] = {
+      earlyStart: new Date(early.get(id)!.start),
+      earlyFinish: new Date(early.get(id)!.finish),
+      lateStart: new Date(late.get(id)!.start),
+      lateFinish: new Date(late.get(id)!.finish),
+      totalFloat,
+      critical: totalFloat <= 0,
+    };
+  });
+
+  return {
+    tasks: schedules,
+    links: links.filter(
+      (link) =>
+        schedules[link.from].critical &&
+        schedules[link.to].critical &&
+        getSuccessorStart(link.type, early.get(link.from)!, durations.get(link.to)!) ===
+          early.get(link.to)!.start
+    ),
+    finish: new Date(finish),
+  };
+};
@@ -0,0 +1,60 @@
+import { getDependencyPath } from './GanttChartDependencies';
+
+const ROW_HEIGHT = 40;
+
+describe('getDependencyPath', () => {
+  it('connects finish to start directly when the successor starts later', () => {
+    expect(
+      getDependencyPath(
+        { left: 0, right: 100, y: 20 },
+        { left: 150, right: 200, y: 60 },
+        'finish-to-start',
+        ROW_HEIGHT
+      )
+    ).toBe('M 100 20 H 108 V 60 H 150');
+  });
+
+  it('routes finish to start around bars when the successor starts earlier', () => {
+    expect(
+      getDependencyPath(
+        { left: 0, right: 100, y: 20 },
+        { left: 50, right: 200, y: 60 },
+        'finish-to-start',
+        ROW_HEIGHT
+      )
+    ).toBe('M 100 20 H 108 V 40 H 42 V 60 H 50');
+  });
+
+  it('connects start to start through the leftmost point', () => {
+    expect(
+      getDependencyPath(
+        { left: 50, right: 100, y: 20 },
+        { left: 20, right: 200, y: 60 },
+        'start-to-start',
+        ROW_HEIGHT
+      )
+    ).toBe('M 50 20 H 12 V 60 H 20');
+  });
+
+  it('connects finish to finish through the rightmost point', () => {
+    expect(
+      getDependencyPath(
+        { left: 0, right: 100, y: 60 },
+        { left: 20, right: 80, y: 20 },
+        'finish-to-finish',
+        ROW_HEIGHT
+      )
+    ).toBe('M 100 60 H 108 V 20 H 80');
+  });
+
+  it('connects start to finish', () => {
+    expect(
+      getDependencyPath(
+        { left: 100, right: 200, y: 20 },
+        { left: 0, right: 50, y: 60 },
+        'start-to-finish',
+        ROW_HEIGHT
+      )
+    ).toBe('M 100 20 H 92 V 60 H 50');
+  });
+});
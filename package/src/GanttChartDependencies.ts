@@ -0,0 +1,65 @@
+export type GanttChartDependencyType =
+  | 'finish-to-start' // Successor starts after the predecessor finishes
+  | 'start-to-start' // Successor starts after the predecessor starts
+  | 'finish-to-finish' // Successor finishes after the predecessor finishes
+  | 'start-to-finish'; // Successor finishes after the predecessor starts
+
+export interface GanttChartDependency {
+  /** Id of the predecessor task */
+  id: string;
+
+  /** Type of the link, `'finish-to-start'` by default */
+  type?: GanttChartDependencyType;
+}
+
+// Horizontal extent of a task bar in pixels
+export interface DependencyBarGeometry {
+  left: number;
+  right: number;
+  y: number;
+}
+
+// Length of the horizontal segment leaving and entering a bar
+const CONNECTOR_GAP = 8;
+
+// Returns which side of the predecessor and successor bars the link connects
+export const getDependencySides = (type: GanttChartDependencyType = 'finish-to-start') => {
+  const [from, to] = type.split('-to-') as ['start' | 'finish', 'start' | 'finish'];
+  return { from, to };
+};
+
+/**
+ * Builds an orthogonal SVG path between two task bars.
+ * When the successor side can not be reached directly, the line goes around through
+ * the boundary between the rows.
+ */
+export const getDependencyPath = (
+  from: DependencyBarGeometry,
+  to: DependencyBarGeometry,
+  type: GanttChartDependencyType = 'finish-to-start',
+  rowHeight: number
+) => {
+  const sides = getDependencySides(type);
+
+  // -1 for the left side of the bar, 1 for the right side
+  const fromSide = sides.from === 'start' ? -1 : 1;
+  const toSide = sides.to === 'start' ? -1 : 1;
+
+  const x1 = fromSide === -1 ? from.left : from.right;
+  const x2 = toSide === -1 ? to.left : to.right;
+  const exitX = x1 + fromSide * CONNECTOR_GAP;
+  const entryX = x2 + toSide * CONNECTOR_GAP;
+
+  if (fromSide === toSide) {
+    const x = fromSide === -1 ? Math.min(exitX, entryX) : Math.max(exitX, entryX);
+    return `M ${x1} ${from.y} H ${x} V ${to.y} H ${x2}`;
+  }
+
+  const isDirect = fromSide === 1 ? exitX <= entryX : exitX >= entryX;
+  if (isDirect) {
+    return `M ${x1} ${from.y} H ${exitX} V ${to.y} H ${x2}`;
+  }
+
+  const middleY = from.y + (to.y >= from.y ? rowHeight / 2 : -rowHeight / 2);
+  return `M ${x1} ${from.y} H ${exitX} V ${middleY} H ${entryX} V ${to.y} H ${x2}`;
+};
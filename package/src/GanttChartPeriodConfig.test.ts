@@ -0,0 +1,81 @@
+import { getPeriodConfigs, PERIOD_CONFIGS } from './GanttChartPeriodConfig';
+
+const shift = {
+  label: 'Shift',
+  width: 4,
+  labelFormat: 'HH:mm',
+  headerFormat: 'MMMM d, yyyy',
+  periodHeaderFormat: 'MMMM d',
+  increment: { minutes: 5 },
+  alignDate: (date: Date) => {
+    const aligned = new Date(date);
+    aligned.setMinutes(Math.floor(date.getMinutes() / 5) * 5, 0, 0);
+    return aligned;
+  },
+};
+
+describe('getPeriodConfigs', () => {
+  it('returns built-in configs by default', () => {
+    expect(getPeriodConfigs()).toEqual(PERIOD_CONFIGS);
+  });
+
+  it('overrides fields of built-in scales', () => {
+    const configs = getPeriodConfigs({ day: { width: 5, labelFormat: 'HH:mm' } });
+
+    expect(configs.day.width).toBe(5);
+    expect(configs.day.labelFormat).toBe('HH:mm');
+    expect(configs.day.increment).toEqual(PERIOD_CONFIGS.day.increment);
+    expect(PERIOD_CONFIGS.day.width).toBe(3);
+  });
+
+  it('adds custom scales after the built-in ones', () => {
+    const configs = getPeriodConfigs({ shift });
+    const keys = Object.keys(configs);
+
+    expect(keys[keys.length - 1]).toBe('shift');
+    expect(configs.shift.getMarkType(new Date())).toBe('major');
+    expect(
+      configs.shift.isPeriodExactMatch(new Date(2024, 0, 1, 10, 5), new Date(2024, 0, 1, 10, 7))
+    ).toBe(true);
+    expect(configs.shift.getGroupKey(new Date(2024, 0, 1, 10, 5))).toBe('January 1');
+  });
+
+  it('requires base fields of custom scales', () => {
+    expect(() => getPeriodConfigs({ sprint: { width: 4 } })).toThrow(
+      'Custom scale "sprint" must define labelFormat, headerFormat, periodHeaderFormat, increment, alignDate'
+    );
+  });
+
+  it('aligns week periods to the first day of the week', () => {
+    // January 3, 2024 is Wednesday
+    const wednesday = new Date(2024, 0, 3, 15);
+
+    expect(getPeriodConfigs().quarter.alignDate(wednesday)).toEqual(new Date(2023, 11, 31));
+    expect(getPeriodConfigs({}, { weekStartsOn: 1 }).quarter.alignDate(wednesday)).toEqual(
+      new Date(2024, 0, 1)
+    );
+    expect(getPeriodConfigs({}, { weekStartsOn: 1 }).year.alignDate(wednesday)).toEqual(
+      new Date(2024, 0, 1)
+    );
+  });
+
+  it('matches dates of the same week', () => {
+    const configs = getPeriodConfigs({}, { weekStartsOn: 1 });
+    const monday = new Date(2024, 0, 1);
+
+    expect(configs.quarter.isPeriodExactMatch(monday, new Date(2024, 0, 7, 23))).toBe(true);
+    expect(configs.quarter.isPeriodExactMatch(monday, new Date(2024, 0, 8))).toBe(false);
+    expect(PERIOD_CONFIGS.quarter.isPeriodExactMatch(monday, new Date(2024, 0, 7))).toBe(false);
+  });
+
+  it('marks the first week of each month', () => {
+    expect(PERIOD_CONFIGS.year.getMarkType(new Date(2024, 0, 7))).toBe('major');
+    expect(PERIOD_CONFIGS.year.getMarkType(new Date(2024, 0, 14))).toBe('minor');
+  });
+
+  it('labels week periods', () => {
+    expect(PERIOD_CONFIGS.quarter.labelFormat).toBe('d');
+    expect(getPeriodConfigs({}, { weekLabel: 'week' }).quarter.labelFormat).toBe('w');
+    expect(getPeriodConfigs({}, { weekLabel: 'iso-week' }).year.labelFormat).toBe('I');
+  });
+});
@@ -1,11 +1,16 @@
 import {
+  constructFrom,
   isWeekend as dateFnsIsWeekend,
+  Day,
   Duration,
+  format,
   getMonth,
   isSameDay,
   isSameHour,
   isSameMonth,
+  isSameWeek,
   isSameYear,
+  startOfWeek,
 } from 'date-fns';
 
 export type PeriodScale =
@@ -18,11 +23,17 @@ export type PeriodScale =
   | 'year' // 1 week periods (short)
   | '5-years'; // 1 month periods
 
+/** Scale key, one of the built-in scales or a key of custom `periodConfigs` */
+export type GanttChartScale = PeriodScale | (string & {});
+
 // Define mark types for periods
-export type PeriodMarkType = 'major' | 'minor' | 'weekend' | 'none';
+export type PeriodMarkType = 'major' | 'minor' | 'weekend' | 'holiday' | 'none';
 
 // Period configuration interface
 export interface PeriodConfig {
+  /** Label of the scale displayed in the scale select, scale key by default */
+  label?: string;
+
   /** Width of each period cell in rem units */
   width: number;
 
@@ -68,6 +79,8 @@ export interface PeriodConfig {
   /**
    * Function to align a date to the period boundaries
    * E.g., for hours scale, align to 15-minute intervals
+   * When the chart has `timeZone`, the date is a `TZDate` of that zone, keep its type with
+   * date-fns functions or `constructFrom` to align in the zone
    */
   alignDate: (date: Date) => Date;
 
@@ -89,9 +102,34 @@ export const isWeekend = (date: Date): boolean => {
   return dateFnsIsWeekend(date);
 };
 
+/**
+ * Label of week periods: `'day'` – day of month of the week start,
+ * `'week'` – week number of the locale, `'iso-week'` – ISO week number
+ */
+export type WeekLabel = 'day' | 'week' | 'iso-week';
+
+const WEEK_LABEL_FORMATS: Record<WeekLabel, string> = {
+  day: 'd',
+  week: 'w',
+  'iso-week': 'I',
+};
+
+// Align week periods to the first day of the week
+const getWeekAlignment = (weekStartsOn: Day) => ({
+  alignDate: (date: Date): Date => startOfWeek(date, { weekStartsOn }),
+  isPeriodExactMatch: (period: Date, date: Date) => isSameWeek(period, date, { weekStartsOn }),
+});
+
+// The first week of each month is a major mark, other weeks are minor
+const getWeekMarkType = (date: Date): PeriodMarkType => (date.getDate() <= 7 ? 'major' : 'minor');
+
+// Scales with week periods, aligned to the first day of the week
+const WEEK_SCALES: PeriodScale[] = ['quarter', 'year'];
+
 // Period configurations for each scale
 export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
   hours: {
+    label: 'Hours',
     width: 6,
     labelFormat: 'h:mm a',
     headerFormat: 'MMMM d, yyyy',
@@ -116,7 +154,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Round to the nearest 15-minute mark
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       const minutes = date.getMinutes();
       const roundedMinutes = Math.floor(minutes / 15) * 15;
       newDate.setMinutes(roundedMinutes, 0, 0);
@@ -132,6 +170,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   day: {
+    label: 'Day',
     width: 3,
     labelFormat: 'h a', // e.g., "10 AM"
     headerFormat: 'MMMM d, yyyy',
@@ -152,7 +191,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Align to hour
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       newDate.setMinutes(0, 0, 0);
       return newDate;
     },
@@ -166,6 +205,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   week: {
+    label: 'Week',
     width: 7,
     labelFormat: 'd', // Day of month
     headerFormat: 'MMMM yyyy',
@@ -181,7 +221,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Align to day
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       newDate.setHours(0, 0, 0, 0);
       return newDate;
     },
@@ -195,6 +235,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   'bi-week': {
+    label: 'Bi-Week',
     width: 3.5,
     labelFormat: 'd', // Day of month
     headerFormat: 'MMMM yyyy',
@@ -210,7 +251,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Align to day
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       newDate.setHours(0, 0, 0, 0);
       return newDate;
     },
@@ -224,6 +265,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   month: {
+    label: 'Month',
     width: 1.75,
     labelFormat: 'd', // Day of month
     headerFormat: 'MMMM yyyy',
@@ -239,7 +281,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Align to day
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       newDate.setHours(0, 0, 0, 0);
       return newDate;
     },
@@ -253,31 +295,17 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   quarter: {
+    label: 'Quarter',
     width: 4.5,
-    labelFormat: 'd', // Week number
+    labelFormat: WEEK_LABEL_FORMATS.day,
     headerFormat: 'MMMM yyyy',
     periodHeaderFormat: 'MMMM',
     increment: { days: 7 },
-    getMarkType: (_date: Date) => 'major',
-    isPeriodExactMatch: (period: Date, date: Date) => {
-      // For quarter, compare year, month, and week
-      return (
-        isSameYear(period, date) &&
-        isSameMonth(period, date) &&
-        Math.floor(period.getDate() / 7) === Math.floor(date.getDate() / 7)
-      );
-    },
+    getMarkType: getWeekMarkType,
     isPeriodOnSameDay: (period: Date, date: Date) => {
       return isSameYear(period, date) && isSameMonth(period, date);
     },
-    alignDate: (date: Date) => {
-      // Align to week
-      const newDate = new Date(date);
-      const dayOfWeek = date.getDay();
-      newDate.setDate(date.getDate() - dayOfWeek);
-      newDate.setHours(0, 0, 0, 0);
-      return newDate;
-    },
+    ...getWeekAlignment(0),
     shouldShowPeriodHeader: (period: Date) => {
       // Show period header for the first week of each month
       // Check if this is the first week that contains a day from this month
@@ -289,31 +317,17 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   year: {
+    label: 'Year',
     width: 2,
-    labelFormat: 'd', // Week number
+    labelFormat: WEEK_LABEL_FORMATS.day,
     headerFormat: 'MMMM yyyy',
     periodHeaderFormat: 'MMMM',
     increment: { days: 7 },
-    getMarkType: (_date: Date) => 'major',
-    isPeriodExactMatch: (period: Date, date: Date) => {
-      // For year, compare year, month, and week
-      return (
-        isSameYear(period, date) &&
-        isSameMonth(period, date) &&
-        Math.floor(period.getDate() / 7) === Math.floor(date.getDate() / 7)
-      );
-    },
+    getMarkType: getWeekMarkType,
     isPeriodOnSameDay: (period: Date, date: Date) => {
       return isSameYear(period, date) && isSameMonth(period, date);
     },
-    alignDate: (date: Date) => {
-      // Align to week
-      const newDate = new Date(date);
-      const dayOfWeek = date.getDay();
-      newDate.setDate(date.getDate() - dayOfWeek);
-      newDate.setHours(0, 0, 0, 0);
-      return newDate;
-    },
+    ...getWeekAlignment(0),
     shouldShowPeriodHeader: (period: Date) => {
       // Show period header for the first week of each month
       // Check if this is the first week that contains a day from this month
@@ -325,6 +339,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
   '5-years': {
+    label: '5 Years',
     width: 2,
     labelFormat: 'M', // Short month name
     headerFormat: 'yyyy', // Year
@@ -342,7 +357,7 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
     alignDate: (date: Date) => {
       // Align to month
-      const newDate = new Date(date);
+      const newDate = constructFrom(date, date);
       newDate.setDate(1);
       newDate.setHours(0, 0, 0, 0);
       return newDate;
@@ -357,3 +372,78 @@ export const PERIOD_CONFIGS: Record<PeriodScale, PeriodConfig> = {
     },
   },
 };
+
+/** Period configs by scale key, merged over the built-in configs */
+export type GanttChartPeriodConfigs = Record<string, Partial<PeriodConfig>>;
+
+// Fields that custom scales must define, other fields have generic defaults
+const CUSTOM_SCALE_REQUIRED_FIELDS = [
+  'width',
+  'labelFormat',
+  'headerFormat',
+  'periodHeaderFormat',
+  'increment',
+  'alignDate',
+] as const;
+
+const isBuiltInScale = (scale: string): scale is PeriodScale =>
+  Object.hasOwn(PERIOD_CONFIGS, scale);
+
+const getCustomPeriodConfig = (scale: string, config: Partial<PeriodConfig>): PeriodConfig => {
+  const missing = CUSTOM_SCALE_REQUIRED_FIELDS.filter((field) => config[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `[mantine-gantt-chart] Custom scale "${scale}" must define ${missing.join(', ')}`
+    );
+  }
+
+  const { alignDate, periodHeaderFormat } = config as PeriodConfig;
+
+  return {
+    getMarkType: () => 'major',
+    isPeriodExactMatch: (period: Date, date: Date) =>
+      period.getTime() === alignDate(date).getTime(),
+    isPeriodOnSameDay: (period: Date, date: Date) => isSameDay(period, date),
+    shouldShowPeriodHeader: () => false,
+    getGroupKey: (period: Date) => format(period, periodHeaderFormat),
+    ...(config as PeriodConfig),
+  };
+};
+
+export interface PeriodConfigsOptions {
+  /** First day of the week of week periods, `0` (Sunday) by default */
+  weekStartsOn?: Day;
+
+  /** Label of week periods, `'day'` by default */
+  weekLabel?: WeekLabel;
+}
+
+/**
+ * Merges `overrides` over the built-in period configs. Built-in scales are overridden field by
+ * field, other keys add custom scales after the built-in ones.
+ */
+export const getPeriodConfigs = (
+  overrides: GanttChartPeriodConfigs = {},
+  { weekStartsOn = 0, weekLabel = 'day' }: PeriodConfigsOptions = {}
+): Record<GanttChartScale, PeriodConfig> => {
+  const configs: Record<GanttChartScale, PeriodConfig> = { ...PERIOD_CONFIGS };
+
+  // Built-in week periods start on Sunday and display day of month
+  if (weekStartsOn !== 0 || weekLabel !== 'day') {
+    WEEK_SCALES.forEach((scale) => {
+      configs[scale] = {
+        ...PERIOD_CONFIGS[scale],
+        ...getWeekAlignment(weekStartsOn),
+        labelFormat: WEEK_LABEL_FORMATS[weekLabel],
+      };
+    });
+  }
+
+  Object.entries(overrides).forEach(([scale, config]) => {
+    configs[scale] = isBuiltInScale(scale)
+      ? { ...configs[scale], ...config }
+      : getCustomPeriodConfig(scale, config);
+  });
+
+  return configs;
+};
@@ -0,0 +1,186 @@
+import { TZDate } from '@date-fns/tz';
+import { format } from 'date-fns';
+import { PERIOD_CONFIGS } from './GanttChartPeriodConfig';
+import {
+  createTimeScale,
+  getDurationMs,
+  getPeriods,
+  getScrollLeft,
+  getZoomLevel,
+  TIMELINE_WIDTH,
+} from './GanttChartTimeScale';
+
+const epoch = new Date(2024, 0, 1).getTime();
+
+describe('createTimeScale', () => {
+  it('places the epoch in the center of the timeline', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.day);
+    expect(timeScale.timeToX(epoch)).toBe(TIMELINE_WIDTH / 2);
+  });
+
+  it('maps a single period to its width', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.day);
+    const oneHourLater = new Date(2024, 0, 1, 1);
+
+    expect(timeScale.timeToX(oneHourLater) - timeScale.timeToX(epoch)).toBe(
+      PERIOD_CONFIGS.day.width * 16
+    );
+  });
+
+  it('converts positions back to dates', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.month);
+    const date = new Date(2030, 5, 15, 12);
+
+    expect(timeScale.xToTime(timeScale.timeToX(date)).getTime()).toBe(date.getTime());
+  });
+
+  it('converts positions of midnights back to the same dates on every scale', () => {
+    Object.values(PERIOD_CONFIGS).forEach((config) => {
+      const timeScale = createTimeScale(epoch, config);
+      for (let day = 1; day <= 60; day += 1) {
+        const date = new Date(2024, 0, day);
+        expect(timeScale.xToTime(timeScale.timeToX(date))).toEqual(date);
+      }
+    });
+  });
+
+  it('positions dates far from the epoch', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.week);
+    expect(timeScale.timeToX(new Date(1990, 0, 1))).toBeLessThan(0);
+  });
+});
+
+describe('getDurationMs', () => {
+  it('converts calendar durations', () => {
+    expect(getDurationMs({ minutes: 15 })).toBe(15 * 60 * 1000);
+    expect(getDurationMs({ weeks: 1 })).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(getDurationMs({ months: 12 })).toBe(getDurationMs({ years: 1 }));
+  });
+});
+
+describe('getPeriods', () => {
+  it('returns aligned periods that cover the range', () => {
+    const periods = getPeriods(
+      PERIOD_CONFIGS.day,
+      new Date(2024, 0, 1, 10, 30),
+      new Date(2024, 0, 1, 13)
+    );
+
+    expect(periods).toEqual([
+      new Date(2024, 0, 1, 10),
+      new Date(2024, 0, 1, 11),
+      new Date(2024, 0, 1, 12),
+    ]);
+  });
+
+  it('aligns periods in the time zone of the dates', () => {
+    // 2024-01-01 00:00 in Tokyo is 2023-12-31 15:00 UTC
+    const from = new TZDate(Date.UTC(2023, 11, 31, 16), 'Asia/Tokyo');
+    const [period] = getPeriods(PERIOD_CONFIGS.week, from, new Date(from.getTime() + 1));
+
+    expect(period.getTime()).toBe(Date.UTC(2023, 11, 31, 15));
+  });
+
+  it('does not skip or repeat hours on daylight saving time transitions', () => {
+    const zone = 'America/New_York';
+    const getHourPeriods = (start: number) =>
+      getPeriods(PERIOD_CONFIGS.day, new TZDate(start, zone), new Date(start + 5 * 60 * 60 * 1000));
+
+    // Clocks move forward at 2 AM on March 10, 2024
+    const spring = getHourPeriods(new TZDate(2024, 2, 10, 0, zone).getTime());
+    expect(spring.map((period) => format(period, 'h a'))).toEqual([
+      '12 AM',
+      '1 AM',
+      '3 AM',
+      '4 AM',
+      '5 AM',
+    ]);
+
+    // Clocks move back at 2 AM on November 3, 2024
+    const fall = getHourPeriods(new TZDate(2024, 10, 3, 0, zone).getTime());
+    expect(fall.map((period) => format(period, 'h a'))).toEqual([
+      '12 AM',
+      '1 AM',
+      '1 AM',
+      '2 AM',
+      '3 AM',
+    ]);
+
+    // Every period is exactly one hour long
+    [spring, fall].forEach((periods) =>
+      periods
+        .slice(1)
+        .forEach((period, index) =>
+          expect(period.getTime() - periods[index].getTime()).toBe(60 * 60 * 1000)
+        )
+    );
+  });
+
+  it('returns an empty list for an empty range', () => {
+    const date = new Date(2024, 0, 1);
+    expect(getPeriods(PERIOD_CONFIGS.day, date, date)).toEqual([]);
+  });
+});
+
+describe('getScrollLeft', () => {
+  it('aligns the date in the viewport', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.day);
+    const x = timeScale.timeToX(epoch);
+    const periodWidth = PERIOD_CONFIGS.day.width * 16;
+
+    expect(getScrollLeft(timeScale, epoch, 'center', 800)).toBe(x - 400);
+    expect(getScrollLeft(timeScale, epoch, 'start', 800)).toBe(x - periodWidth);
+    expect(getScrollLeft(timeScale, epoch, 'end', 800)).toBe(x - 800 + periodWidth);
+    expect(getScrollLeft(timeScale, epoch, 120, 800)).toBe(x - 120);
+  });
+});
+
+describe('createTimeScale zoom', () => {
+  it('multiplies the period width', () => {
+    const timeScale = createTimeScale(epoch, PERIOD_CONFIGS.day, 2);
+
+    expect(timeScale.periodWidthPx).toBe(PERIOD_CONFIGS.day.width * 32);
+    expect(timeScale.pxPerMs).toBe(createTimeScale(epoch, PERIOD_CONFIGS.day).pxPerMs * 2);
+  });
+});
+
+describe('getZoomLevel', () => {
+  const scales = (['day', 'week', 'month'] as const).map((scale) => ({
+    scale,
+    config: PERIOD_CONFIGS[scale],
+  }));
+  const getPxPerMs = (scale: 'day' | 'week' | 'month') =>
+    createTimeScale(epoch, PERIOD_CONFIGS[scale]).pxPerMs;
+
+  it('keeps the scale while periods are not too narrow or too wide', () => {
+    expect(getZoomLevel(scales, 'week', getPxPerMs('week') * 1.5)).toEqual({
+      scale: 'week',
+      zoom: 1.5,
+    });
+    expect(getZoomLevel(scales, 'week', getPxPerMs('week') * 0.5)).toEqual({
+      scale: 'week',
+      zoom: 0.5,
+    });
+  });
+
+  it('switches to the next scale when periods become too narrow or too wide', () => {
+    const zoomedOut = getZoomLevel(scales, 'week', getPxPerMs('week') * 0.2);
+    expect(zoomedOut.scale).toBe('month');
+    expect(zoomedOut.zoom).toBeCloseTo((getPxPerMs('week') * 0.2) / getPxPerMs('month'));
+
+    const zoomedIn = getZoomLevel(scales, 'week', getPxPerMs('week') * 5);
+    expect(zoomedIn.scale).toBe('day');
+    expect(zoomedIn.zoom).toBeCloseTo((getPxPerMs('week') * 5) / getPxPerMs('day'));
+  });
+
+  it('limits zoom of the least and the most detailed scales', () => {
+    expect(getZoomLevel(scales, 'month', getPxPerMs('month') * 0.01)).toEqual({
+      scale: 'month',
+      zoom: 0.25,
+    });
+    expect(getZoomLevel(scales, 'day', getPxPerMs('day') * 100)).toEqual({
+      scale: 'day',
+      zoom: 4,
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { add, Duration } from 'date-fns';
+import type { GanttChartScale, PeriodConfig } from './GanttChartPeriodConfig';
+
+// Average lengths used to convert calendar durations to milliseconds
+const MS_IN_MINUTE = 60 * 1000;
+const MS_IN_HOUR = 60 * MS_IN_MINUTE;
+const MS_IN_DAY = 24 * MS_IN_HOUR;
+const MS_IN_YEAR = 365.2425 * MS_IN_DAY;
+const MS_IN_MONTH = MS_IN_YEAR / 12;
+
+/** Width of the scrollable timeline canvas in px, the epoch is placed in its center */
+export const TIMELINE_WIDTH = 2_000_000;
+
+/** Converts a duration to milliseconds, months and years use their average length */
+export const getDurationMs = (duration: Duration) =>
+  (duration.years ?? 0) * MS_IN_YEAR +
+  (duration.months ?? 0) * MS_IN_MONTH +
+  (duration.weeks ?? 0) * 7 * MS_IN_DAY +
+  (duration.days ?? 0) * MS_IN_DAY +
+  (duration.hours ?? 0) * MS_IN_HOUR +
+  (duration.minutes ?? 0) * MS_IN_MINUTE +
+  (duration.seconds ?? 0) * 1000;
+
+export interface TimeScale {
+  /** Time placed in the center of the timeline canvas */
+  epoch: number;
+
+  /** Pixels per millisecond */
+  pxPerMs: number;
+
+  /** Width of a single period in px */
+  periodWidthPx: number;
+
+  /** Returns horizontal position of the date on the timeline canvas in px */
+  timeToX: (date: Date | number) => number;
+
+  /** Returns date at the horizontal position of the timeline canvas */
+  xToTime: (x: number) => Date;
+}
+
+/** Creates a linear mapping between time and timeline pixels anchored at `epoch`, `zoom` multiplies the period width */
+export const createTimeScale = (epoch: number, config: PeriodConfig, zoom = 1): TimeScale => {
+  const periodWidthPx = config.width * 16 * zoom; // convert rem to px
+  const pxPerMs = periodWidthPx / getDurationMs(config.increment);
+  const center = TIMELINE_WIDTH / 2;
+
+  return {
+    epoch,
+    pxPerMs,
+    periodWidthPx,
+    timeToX: (date) =>
+      center + ((typeof date === 'number' ? date : date.getTime()) - epoch) * pxPerMs,
+    // `Date` truncates fractional milliseconds, round to the nearest to get dates back unchanged
+    xToTime: (x) => new Date(Math.round(epoch + (x - center) / pxPerMs)),
+  };
+};
+
+// Upper limit of generated periods, protects from very wide ranges
+const MAX_PERIODS = 5000;
+
+/** Returns aligned period start dates that cover the range from `from` to `to` */
+export const getPeriods = (config: PeriodConfig, from: Date, to: Date) => {
+  const periods: Date[] = [];
+  let period = config.alignDate(from);
+
+  while (period.getTime() < to.getTime() && periods.length < MAX_PERIODS) {
+    periods.push(period);
+    period = add(period, config.increment);
+  }
+
+  return periods;
+};
+
+/** Numbers place the date at the given distance from the left edge of the viewport in px */
+export type TimelineAlign = 'start' | 'center' | 'end' | number;
+
+/**
+ * Returns scroll position that places the date in the viewport of the given width,
+ * `'start'` and `'end'` keep a single period between the date and the viewport edge
+ */
+export const getScrollLeft = (
+  timeScale: TimeScale,
+  date: Date | number,
+  align: TimelineAlign,
+  viewportWidth: number
+) => {
+  const x = timeScale.timeToX(date);
+
+  if (typeof align === 'number') {
+    return x - align;
+  }
+
+  if (align === 'start') {
+    return x - timeScale.periodWidthPx;
+  }
+
+  if (align === 'end') {
+    return x - viewportWidth + timeScale.periodWidthPx;
+  }
+
+  return x - viewportWidth / 2;
+};
+
+// Periods may shrink to a quarter or grow to four times of the configured width before the scale changes,
+// the range covers gaps between the built-in scales, so zooming does not jump
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 4;
+
+export interface ZoomLevel {
+  scale: GanttChartScale;
+
+  /** Multiplier of the period width of the scale */
+  zoom: number;
+}
+
+/**
+ * Returns the scale and zoom that display the timeline with the given density in px per millisecond,
+ * the current scale is kept while its periods are not too narrow or too wide
+ */
+export const getZoomLevel = (
+  scales: { scale: GanttChartScale; config: PeriodConfig }[],
+  current: GanttChartScale,
+  pxPerMs: number
+): ZoomLevel => {
+  // From the most to the least detailed scale
+  const sorted = scales
+    .map(({ scale, config }) => ({ scale, pxPerMs: createTimeScale(0, config).pxPerMs }))
+    .sort((a, b) => b.pxPerMs - a.pxPerMs);
+
+  if (sorted.length === 0) {
+    return { scale: current, zoom: 1 };
+  }
+
+  const getZoom = (index: number) => pxPerMs / sorted[index].pxPerMs;
+  let index = Math.max(
+    0,
+    sorted.findIndex(({ scale }) => scale === current)
+  );
+
+  // Move in a single direction, the zoom is clamped when the gap to the next scale is too wide
+  if (getZoom(index) < MIN_ZOOM) {
+    while (getZoom(index) < MIN_ZOOM && index < sorted.length - 1) {
+      index += 1;
+    }
+  } else {
+    while (getZoom(index) > MAX_ZOOM && index > 0) {
+      index -= 1;
+    }
+  }
+
+  return {
+    scale: sorted[index].scale,
+    zoom: Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, getZoom(index))),
+  };
+};
@@ -0,0 +1,105 @@
+import { getAncestorIds, getParentIds, getTaskRows } from './GanttChartTree';
+
+const data = [
+  { id: 'epic', name: 'Epic', start: new Date(2024, 0, 1), end: new Date(2024, 0, 2) },
+  {
+    id: 'story',
+    name: 'Story',
+    parentId: 'epic',
+    start: new Date(2024, 0, 3),
+    end: new Date(2024, 0, 4),
+  },
+  {
+    id: 'subtask-1',
+    name: 'Subtask 1',
+    parentId: 'story',
+    start: new Date(2024, 0, 5),
+    end: new Date(2024, 0, 8),
+  },
+  {
+    id: 'subtask-2',
+    name: 'Subtask 2',
+    parentId: 'story',
+    start: new Date(2024, 0, 2),
+    end: new Date(2024, 0, 6),
+  },
+  { id: 'orphan', name: 'Orphan', parentId: 'unknown', start: new Date(), end: new Date() },
+];
+
+describe('getTaskRows', () => {
+  it('returns parent ids', () => {
+    expect(getParentIds(data)).toEqual(['epic', 'story']);
+  });
+
+  it('places children after their parents with increasing depth', () => {
+    const rows = getTaskRows(data, ['epic', 'story']);
+
+    expect(rows.map((row) => [row.task.id, row.depth])).toEqual([
+      ['epic', 0],
+      ['story', 1],
+      ['subtask-1', 2],
+      ['subtask-2', 2],
+      ['orphan', 0],
+    ]);
+  });
+
+  it('omits children of collapsed tasks', () => {
+    const rows = getTaskRows(data, ['epic']);
+
+    expect(rows.map((row) => row.task.id)).toEqual(['epic', 'story', 'orphan']);
+    expect(rows[1]).toMatchObject({ hasChildren: true, expanded: false });
+  });
+
+  it('spans parent tasks over all descendants', () => {
+    const [epic, story] = getTaskRows(data, ['epic']);
+
+    expect(epic.task.start).toEqual(new Date(2024, 0, 2));
+    expect(epic.task.end).toEqual(new Date(2024, 0, 8));
+    expect(story.task.start).toEqual(new Date(2024, 0, 2));
+    expect(story.task.end).toEqual(new Date(2024, 0, 8));
+  });
+
+  it('ignores cyclic parent references', () => {
+    const rows = getTaskRows(
+      [
+        { id: 'a', name: 'A', start: new Date(), end: new Date() },
+        { id: 'b', name: 'B', parentId: 'a', start: new Date(), end: new Date() },
+        { id: 'c', name: 'C', parentId: 'c', start: new Date(), end: new Date() },
+      ],
+      ['a', 'b', 'c']
+    );
+
+    expect(rows.map((row) => row.task.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('displays tasks whose parents reference each other', () => {
+    const tasks = [
+      { id: 'a', name: 'A', parentId: 'b', start: new Date(), end: new Date() },
+      { id: 'b', name: 'B', parentId: 'a', start: new Date(), end: new Date() },
+      { id: 'c', name: 'C', parentId: 'b', start: new Date(), end: new Date() },
+      { id: 'd', name: 'D', start: new Date(), end: new Date() },
+    ];
+
+    expect(getTaskRows(tasks, ['a', 'b']).map((row) => [row.task.id, row.depth])).toEqual([
+      ['d', 0],
+      ['a', 0],
+      ['b', 1],
+      ['c', 2],
+    ]);
+    expect(getTaskRows(tasks, []).map((row) => row.task.id)).toEqual(['d', 'a']);
+  });
+
+  it('returns ancestor ids from the parent to the root task', () => {
+    expect(getAncestorIds(data, 'subtask-1')).toEqual(['story', 'epic']);
+    expect(getAncestorIds(data, 'orphan')).toEqual([]);
+    expect(
+      getAncestorIds(
+        [
+          { id: 'a', name: 'A', parentId: 'b', start: new Date(), end: new Date() },
+          { id: 'b', name: 'B', parentId: 'a', start: new Date(), end: new Date() },
+        ],
+        'a'
+      )
+    ).toEqual(['b']);
+  });
+});
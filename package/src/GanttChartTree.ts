@@ -0,0 +1,156 @@
+import type { GanttChartData } from './GanttChart';
+
+export interface GanttChartRow {
+  /** Task rendered in the row, parent tasks have dates of their summary */
+  task: GanttChartData;
+
+  /** Nesting level, `0` for root tasks */
+  depth: number;
+
+  /** Determines whether the task has child tasks */
+  hasChildren: boolean;
+
+  /** Determines whether child tasks are displayed */
+  expanded: boolean;
+}
+
+// Group tasks by parent id, tasks with unknown parent are treated as root tasks
+const getChildrenMap = (data: GanttChartData[]) => {
+  const ids = new Set(data.map((task) => task.id));
+  const children = new Map<string | undefined, GanttChartData[]>();
+
+  data.forEach((task) => {
+    const parentId =
+      task.parentId !== undefined && task.parentId !== task.id && ids.has(task.parentId)
+        ? task.parentId
+        : undefined;
+    const siblings = children.get(parentId);
+    if (siblings) {
+      siblings.push(task);
+    } else {
+      children.set(parentId, [task]);
+    }
+  });
+
+  return children;
+};
+
+/** Returns ids of all tasks that have child tasks */
+export const getParentIds = (data: GanttChartData[]) =>
+  Array.from(getChildrenMap(data).keys()).filter((id): id is string => id !== undefined);
+
+/** Returns ids of all ancestors of the task from its parent to the root task */
+export const getAncestorIds = (data: GanttChartData[], id: string) => {
+  const tasks = new Map(data.map((task) => [task.id, task]));
+  const ancestors: string[] = [];
+  let parentId = tasks.get(id)?.parentId;
+
+  // Stops at unknown parents and at cyclic parent references
+  while (
+    parentId !== undefined &&
+    tasks.has(parentId) &&
+    parentId !== id &&
+    !ancestors.includes(parentId)
+  ) {
+    ancestors.push(parentId);
+    parentId = tasks.get(parentId)!.parentId;
+  }
+
+  return ancestors;
+};
+
+/**
+ * Flattens tasks into rows in display order: every parent is followed by its children.
+ * Children of collapsed parents are omitted, parent dates span all of their descendants.
+ * When `compare` is set, tasks are sorted among their siblings.
+ */
+export const getTaskRows = (
+  data: GanttChartData[],
+  expandedIds: string[],
+  compare?: (a: GanttChartData, b: GanttChartData) => number
+): GanttChartRow[] => {
+  const children = getChildrenMap(data);
+  const expanded = new Set(expandedIds);
+  const summaries = new Map<string, GanttChartData>();
+
+  // Calculates summary dates bottom-up, `visited` protects from cyclic parent references
+  const getSummary = (task: GanttChartData, visited: Set<string>): GanttChartData => {
+    const cached = summaries.get(task.id);
+    if (cached) {
+      return cached;
+    }
+
+    const descendants = (children.get(task.id) ?? [])
+      .filter((child) => !visited.has(child.id))
+      .map((child) => getSummary(child, new Set(visited).add(child.id)));
+
+    const summary =
+      descendants.length === 0
+        ? task
+        : {
+            ...task,
+            start: new Date(Math.min(...descendants.map((d) => d.start.getTime()))),
+            end: new Date(Math.max(...descendants.map((d) => d.end.getTime()))),
+          };
+
+    summaries.set(task.id, summary);
+    return summary;
+  };
+
+  const sortTasks = (tasks: GanttChartData[], visited: Set<string>) =>
+    compare
+      ? [...tasks].sort((a, b) =>
+          compare(
+            getSummary(a, new Set(visited).add(a.id)),
+            getSummary(b, new Set(visited).add(b.id))
+          )
+        )
+      : tasks;
+
+  const rows: GanttChartRow[] = [];
+  const visit = (task: GanttChartData, depth: number, visited: Set<string>) => {
+    const taskChildren = sortTasks(
+      (children.get(task.id) ?? []).filter((child) => !visited.has(child.id)),
+      visited
+    );
+    const isExpanded = expanded.has(task.id);
+
+    rows.push({
+      task: getSummary(task, visited),
+      depth,
+      hasChildren: taskChildren.length > 0,
+      expanded: isExpanded,
+    });
+
+    if (isExpanded) {
+      taskChildren.forEach((child) => visit(child, depth + 1, new Set(visited).add(child.id)));
+    }
+  };
+
+  // Tasks of parent cycles are not descendants of any root task, the first task of every cycle
+  // in `data` order is displayed as a root task
+  const roots = [...(children.get(undefined) ?? [])];
+  const reached = new Set<string>();
+  const reach = (task: GanttChartData) => {
+    const stack = [task];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (!reached.has(current.id)) {
+        reached.add(current.id);
+        stack.push(...(children.get(current.id) ?? []));
+      }
+    }
+  };
+
+  roots.forEach(reach);
+  data.forEach((task) => {
+    if (!reached.has(task.id)) {
+      roots.push(task);
+      reach(task);
+    }
+  });
+
+  sortTasks(roots, new Set()).forEach((task) => visit(task, 0, new Set([task.id])));
+
+  return rows;
+};
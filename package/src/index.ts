@@ -2,9 +2,46 @@ export { GanttChart } from './GanttChart';
 export type {
   GanttChartProps,
   GanttChartCssVariables,
+  GanttChartData,
   GanttChartFactory,
+  GanttChartHandle,
+  GanttChartRenderState,
+  GanttChartScrollOptions,
   GanttChartStylesNames,
+  GanttChartTableCellRenderState,
+  GanttChartTaskRenderState,
+  GanttChartVariant,
+  GanttChartVisibleRange,
 } from './GanttChart';
+export type { GanttChartDateRange, GanttChartTaskChange } from './use-task-drag';
+
+export type { GanttChartDependency, GanttChartDependencyType } from './GanttChartDependencies';
+
+export type { GanttChartRow } from './GanttChartTree';
+export type {
+  GanttChartColumn,
+  GanttChartSort,
+  GanttChartSortDirection,
+} from './GanttChartColumns';
 
 export { PERIOD_CONFIGS } from './GanttChartPeriodConfig';
-export type { PeriodConfig, PeriodScale } from './GanttChartPeriodConfig';
+export { getCriticalPath } from './GanttChartCriticalPath';
+export type {
+  GanttChartCriticalLink,
+  GanttChartCriticalPath,
+  GanttChartTaskSchedule,
+} from './GanttChartCriticalPath';
+export type {
+  GanttChartPeriodConfigs,
+  GanttChartScale,
+  PeriodConfig,
+  PeriodScale,
+  WeekLabel,
+} from './GanttChartPeriodConfig';
+
+export { getWorkingDays, getWorkingDuration, isWorkingDay } from './GanttChartCalendar';
+export type {
+  GanttChartCalendar,
+  GanttChartHoliday,
+  GanttChartWorkingHours,
+} from './GanttChartCalendar';
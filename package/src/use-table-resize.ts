@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface UseTableResizeInput {
+  /** Ref of the table element, used to measure its current and natural width */
+  tableRef: React.RefObject<HTMLDivElement | null>;
+
+  /** Current table width in px, `undefined` when the table has its natural width */
+  width: number | undefined;
+
+  /** Determines whether the table is rendered, its natural width is measured while it is */
+  enabled: boolean;
+
+  minWidth: number;
+  maxWidth: number;
+
+  /** Called with the new table width in px */
+  onChange: (width: number) => void;
+}
+
+// Width change in px for a single arrow key press, multiplied when Shift is pressed
+const KEYBOARD_STEP = 16;
+const KEYBOARD_SHIFT_MULTIPLIER = 4;
+
+export function useTableResize({
+  tableRef,
+  width,
+  enabled,
+  minWidth,
+  maxWidth,
+  onChange,
+}: UseTableResizeInput) {
+  const sessionRef = useRef<{ originX: number; originWidth: number } | null>(null);
+  const [measuredWidth, setMeasuredWidth] = useState<number>();
+
+  // Natural width of the table is exposed as the value of the splitter
+  useEffect(() => {
+    const table = tableRef.current;
+    if (!enabled || !table) {
+      return undefined;
+    }
+
+    const measure = () => setMeasuredWidth(Math.round(table.getBoundingClientRect().width));
+    const observer = new ResizeObserver(measure);
+    measure();
+    observer.observe(table);
+    return () => observer.disconnect();
+  }, [enabled]);
+
+  const clamp = (value: number) => Math.round(Math.min(maxWidth, Math.max(minWidth, value)));
+  const getCurrentWidth = () =>
+    width ?? tableRef.current?.getBoundingClientRect().width ?? minWidth;
+
+  // Document listeners are attached once, keep the latest limits and callback in a ref
+  const changeRef = useRef((value: number) => onChange(clamp(value)));
+  changeRef.current = (value: number) => onChange(clamp(value));
+
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => {
+      const session = sessionRef.current;
+      if (session) {
+        changeRef.current(session.originWidth + event.clientX - session.originX);
+      }
+    };
+
+    const handleUp = () => {
+      sessionRef.current = null;
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+
+    return () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+    };
+  }, []);
+
+  const onPointerDown = (event: React.PointerEvent<HTMLElement>) => {
+    if (event.button !== 0) {
+      return;
+    }
+
+    event.preventDefault();
+    sessionRef.current = { originX: event.clientX, originWidth: getCurrentWidth() };
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    const step = KEYBOARD_STEP * (event.shiftKey ? KEYBOARD_SHIFT_MULTIPLIER : 1);
+    const nextWidth: Record<string, number> = {
+      ArrowLeft: getCurrentWidth() - step,
+      ArrowRight: getCurrentWidth() + step,
+      Home: minWidth,
+      End: maxWidth,
+    };
+
+    if (event.key in nextWidth) {
+      event.preventDefault();
+      onChange(clamp(nextWidth[event.key]));
+    }
+  };
+
+  // Double click fits the table to the natural width of its content
+  const onDoubleClick = () => {
+    const table = tableRef.current;
+    if (!table) {
+      return;
+    }
+
+    const { width: inlineWidth, flex } = table.style;
+    table.style.width = 'max-content';
+    table.style.flex = 'none';
+    const contentWidth = table.getBoundingClientRect().width;
+    table.style.width = inlineWidth;
+    table.style.flex = flex;
+
+    onChange(clamp(contentWidth));
+  };
+
+  return {
+    value: width ?? measuredWidth,
+    handlers: { onPointerDown, onKeyDown, onDoubleClick },
+  };
+}
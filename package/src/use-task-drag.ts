@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { add, Duration, sub } from 'date-fns';
+import type { GanttChartData } from './GanttChart';
+
+export interface GanttChartDateRange {
+  start: Date;
+  end: Date;
+}
+
+/** Changes applied to a task by dragging, `progress` is set when the progress handle is moved */
+export interface GanttChartTaskChange extends GanttChartDateRange {
+  progress?: number;
+}
+
+/**
+ * `move` shifts the whole task, `start` and `end` resize it from the corresponding edge,
+ * `progress` changes the completed percentage
+ */
+export type TaskDragMode = 'move' | 'start' | 'end' | 'progress';
+
+export interface TaskDragPreview extends GanttChartTaskChange {
+  taskId: string;
+  mode: TaskDragMode;
+}
+
+interface DragSession {
+  task: GanttChartData;
+  mode: TaskDragMode;
+  originX: number;
+  moved: boolean;
+}
+
+interface UseTaskDragInput {
+  /** Milliseconds represented by a single pixel of the timeline */
+  msPerPixel: number;
+
+  /** Duration of a single period, used for keyboard resizing and as the shortest task duration */
+  increment: Duration;
+
+  /** Snaps a date to the period grid, `undefined` disables snapping */
+  snapDate?: (date: Date) => Date;
+
+  /** Converts a date to the time zone of the chart before keyboard steps, local zone by default */
+  toZone?: (date: Date) => Date;
+
+  /** Called once the drag is finished with the new task dates */
+  onTaskChange?: (task: GanttChartData, change: GanttChartTaskChange) => void;
+}
+
+// Distance in pixels the pointer has to travel before the drag starts
+const DRAG_THRESHOLD = 3;
+
+// Progress change in percent for a single arrow key press
+const PROGRESS_STEP = 5;
+
+// Local time zone, default of `toZone`
+const toLocalZone = (date: Date) => date;
+
+const clampProgress = (progress: number) => Math.min(100, Math.max(0, Math.round(progress)));
+
+const isSameChange = (task: GanttChartData, change: GanttChartTaskChange) =>
+  change.start.getTime() === task.start.getTime() &&
+  change.end.getTime() === task.end.getTime() &&
+  (change.progress === undefined || change.progress === task.progress);
+
+export function useTaskDrag({
+  msPerPixel,
+  increment,
+  snapDate,
+  toZone = toLocalZone,
+  onTaskChange,
+}: UseTaskDragInput) {
+  const [preview, setPreview] = useState<TaskDragPreview | null>(null);
+  const sessionRef = useRef<DragSession | null>(null);
+  const previewRef = useRef<TaskDragPreview | null>(null);
+
+  const updatePreview = (value: TaskDragPreview | null) => {
+    previewRef.current = value;
+    setPreview(value);
+  };
+
+  // Keep resized tasks at least one period long, periods are added in the time zone of the chart
+  // so that months and DST days keep their calendar length
+  const clampRange = useCallback(
+    (task: GanttChartData, mode: TaskDragMode, range: GanttChartDateRange) => {
+      if (mode === 'start') {
+        const latestStart = sub(toZone(range.end), increment).getTime();
+        return range.start.getTime() > latestStart
+          ? { start: new Date(latestStart), end: task.end }
+          : range;
+      }
+
+      if (mode === 'end') {
+        const earliestEnd = add(toZone(range.start), increment).getTime();
+        return range.end.getTime() < earliestEnd
+          ? { start: task.start, end: new Date(earliestEnd) }
+          : range;
+      }
+
+      return range;
+    },
+    [increment, toZone]
+  );
+
+  const getRange = useCallback(
+    (task: GanttChartData, mode: TaskDragMode, deltaPx: number): GanttChartTaskChange => {
+      if (mode === 'progress') {
+        const durationPx = (task.end.getTime() - task.start.getTime()) / msPerPixel;
+        const delta = durationPx > 0 ? (deltaPx / durationPx) * 100 : 0;
+        return {
+          start: task.start,
+          end: task.end,
+          progress: clampProgress((task.progress ?? 0) + delta),
+        };
+      }
+
+      const shift = (date: Date) => {
+        const shifted = new Date(date.getTime() + deltaPx * msPerPixel);
+        return snapDate ? snapDate(shifted) : shifted;
+      };
+
+      if (mode === 'start') {
+        return clampRange(task, mode, { start: shift(task.start), end: task.end });
+      }
+
+      if (mode === 'end') {
+        return clampRange(task, mode, { start: task.start, end: shift(task.end) });
+      }
+
+      const start = shift(task.start);
+      return { start, end: new Date(start.getTime() + task.end.getTime() - task.start.getTime()) };
+    },
+    [msPerPixel, snapDate, clampRange]
+  );
+
+  useEffect(() => {
+    const handleMove = (event: PointerEvent) => {
+      const session = sessionRef.current;
+      if (!session) {
+        return;
+      }
+
+      const deltaPx = event.clientX - session.originX;
+      if (!session.moved && Math.abs(deltaPx) < DRAG_THRESHOLD) {
+        return;
+      }
+
+      session.moved = true;
+      updatePreview({
+        taskId: session.task.id,
+        mode: session.mode,
+        ...getRange(session.task, session.mode, deltaPx),
+      });
+    };
+
+    const handleUp = () => {
+      const session = sessionRef.current;
+      const range = previewRef.current;
+      sessionRef.current = null;
+
+      if (session && range && session.moved && !isSameChange(session.task, range)) {
+        const { taskId: _taskId, mode: _mode, ...change } = range;
+        onTaskChange?.(session.task, change);
+      }
+
+      updatePreview(null);
+    };
+
+    document.addEventListener('pointermove', handleMove);
+    document.addEventListener('pointerup', handleUp);
+    document.addEventListener('pointercancel', handleUp);
+
+    return () => {
+      document.removeEventListener('pointermove', handleMove);
+      document.removeEventListener('pointerup', handleUp);
+      document.removeEventListener('pointercancel', handleUp);
+    };
+  }, [getRange, onTaskChange]);
+
+  const getDragHandlers = (task: GanttChartData, mode: TaskDragMode = 'move') => ({
+    onPointerDown: (event: React.PointerEvent<HTMLElement>) => {
+      if (!onTaskChange || event.button !== 0) {
+        return;
+      }
+
+      // Resize and progress handles live inside the task bar, do not start moving the whole task
+      event.stopPropagation();
+      event.preventDefault();
+      sessionRef.current = { task, mode, originX: event.clientX, moved: false };
+    },
+  });
+
+  // Arrow keys move the resized edge by one period
+  const getResizeKeyDownHandler =
+    (task: GanttChartData, mode: 'start' | 'end') => (event: React.KeyboardEvent<HTMLElement>) => {
+      if (!onTaskChange || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) {
+        return;
+      }
+
+      event.preventDefault();
+      const step = (date: Date) => {
+        const zoned = toZone(date);
+        const shifted = event.key === 'ArrowLeft' ? sub(zoned, increment) : add(zoned, increment);
+        return new Date(shifted.getTime());
+      };
+
+      const range = clampRange(
+        task,
+        mode,
+        mode === 'start'
+          ? { start: step(task.start), end: task.end }
+          : { start: task.start, end: step(task.end) }
+      );
+
+      if (!isSameChange(task, range)) {
+        onTaskChange(task, range);
+      }
+    };
+
+  // Arrow keys change the progress by `PROGRESS_STEP` percent
+  const getProgressKeyDownHandler =
+    (task: GanttChartData) => (event: React.KeyboardEvent<HTMLElement>) => {
+      if (!onTaskChange || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) {
+        return;
+      }
+
+      event.preventDefault();
+      const step = event.key === 'ArrowLeft' ? -PROGRESS_STEP : PROGRESS_STEP;
+      const progress = clampProgress((task.progress ?? 0) + step);
+
+      if (progress !== task.progress) {
+        onTaskChange(task, { start: task.start, end: task.end, progress });
+      }
+    };
+
+  // Shifts the whole task by one period, used by keyboard navigation of task bars
+  const moveTask = (task: GanttChartData, direction: -1 | 1) => {
+    if (!onTaskChange) {
+      return;
+    }
+
+    const zoned = toZone(task.start);
+    const start = new Date(
+      (direction < 0 ? sub(zoned, increment) : add(zoned, increment)).getTime()
+    );
+    onTaskChange(task, {
+      start,
+      end: new Date(start.getTime() + task.end.getTime() - task.start.getTime()),
+    });
+  };
+
+  return {
+    preview,
+    getDragHandlers,
+    getResizeKeyDownHandler,
+    getProgressKeyDownHandler,
+    moveTask,
+  };
+}
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+
+interface UseTimelineZoomInput {
+  /** Ref of the scrollable timeline element */
+  containerRef: React.RefObject<HTMLDivElement | null>;
+
+  /** Called with the zoom factor and the distance of the zoom center from the left edge of the viewport in px */
+  onZoom: (factor: number, offset: number) => void;
+}
+
+// Exponential zoom speed per pixel of the wheel delta
+const WHEEL_ZOOM_SPEED = 0.002;
+
+// Pixels per line, some mice report wheel deltas in lines
+const WHEEL_LINE_HEIGHT = 16;
+
+const getTouchDistance = (touches: TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+export function useTimelineZoom({ containerRef, onZoom }: UseTimelineZoomInput) {
+  // Listeners are attached once, keep the latest callback in a ref
+  const zoomRef = useRef(onZoom);
+  zoomRef.current = onZoom;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return undefined;
+    }
+
+    const getOffset = (clientX: number) => clientX - container.getBoundingClientRect().left;
+
+    // Ctrl or Cmd with the wheel, trackpads report pinch as a wheel event with `ctrlKey`
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) {
+        return;
+      }
+
+      event.preventDefault();
+      const delta = event.deltaY * (event.deltaMode === 1 ? WHEEL_LINE_HEIGHT : 1);
+      zoomRef.current(Math.exp(-delta * WHEEL_ZOOM_SPEED), getOffset(event.clientX));
+    };
+
+    // Distance between two touches of the pinch, `0` when there is no pinch
+    let pinchDistance = 0;
+
+    const handleTouchChange = (event: TouchEvent) => {
+      pinchDistance = event.touches.length === 2 ? getTouchDistance(event.touches) : 0;
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (event.touches.length !== 2 || pinchDistance === 0) {
+        return;
+      }
+
+      event.preventDefault();
+      const distance = getTouchDistance(event.touches);
+      const center = (event.touches[0].clientX + event.touches[1].clientX) / 2;
+      zoomRef.current(distance / pinchDistance, getOffset(center));
+      pinchDistance = distance;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchChange);
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchChange);
+    container.addEventListener('touchcancel', handleTouchChange);
+
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchChange);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchChange);
+      container.removeEventListener('touchcancel', handleTouchChange);
+    };
+  }, []);
+}